@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+import type { KnowledgeGraphSnapshot, ObjectiveDTO } from '../database.js';
+
+const fixturePath = path.join(mkdtempSync(path.join(tmpdir(), 'visium-brain-')), 'fixture.json');
+writeFileSync(fixturePath, JSON.stringify({ brain: 'Start with churn [O1], which drives expansion [R1]. Ignore [O9].' }));
+
+process.env.DATABASE_URL ??= 'postgresql://localhost/visium-test';
+process.env.LLM_PROVIDER = 'fixture';
+process.env.LLM_FIXTURE_PATH = fixturePath;
+process.env.EMBEDDINGS_ENABLED = 'false';
+
+// Configuration is read on import, so modules load after the fixture provider is selected
+const { EMPTY_GRAPH_ANSWER, generateBrainResponse } = await import('./brain.js');
+
+function objective(id: string, text: string): ObjectiveDTO {
+  const now = new Date('2025-01-01T00:00:00Z');
+  return {
+    id,
+    text,
+    context: null,
+    category: null,
+    timeframe: null,
+    status: 'ACTIVE',
+    priority: 'HIGH',
+    reviewState: 'ACCEPTED',
+    confidence: null,
+    owner: null,
+    metrics: [],
+    tags: [],
+    sourceLabel: null,
+    sourceExcerpt: null,
+    sourceStart: null,
+    sourceEnd: null,
+    level: null,
+    parentId: null,
+    entryId: null,
+    createdAt: now,
+    updatedAt: now,
+    related: [],
+    keyResults: [],
+    progress: null,
+  };
+}
+
+const snapshot: KnowledgeGraphSnapshot = {
+  objectives: [objective('churn', 'Reduce customer churn below five percent'), objective('expansion', 'Grow expansion revenue')],
+  relationships: [{ id: 'link', fromId: 'churn', toId: 'expansion', type: 'SUPPORTS', rationale: null, weight: null }],
+};
+
+test('answers from the fixture and resolves the labels it cites', async () => {
+  const result = await generateBrainResponse('How do we reduce churn?', snapshot);
+
+  assert.equal(result.answer, 'Start with churn [O1], which drives expansion [R1]. Ignore [O9].');
+  assert.deepEqual(
+    result.citations.map((citation) => [citation.ref, citation.objective.id]),
+    [['O1', 'churn']],
+  );
+  assert.deepEqual(
+    result.citedRelationships.map((citation) => [citation.ref, citation.fromText, citation.toText]),
+    [['R1', 'Reduce customer churn below five percent', 'Grow expansion revenue']],
+  );
+  assert.equal(result.contextObjectives[0]?.id, 'churn');
+});
+
+test('an empty graph is answered without calling the model', async () => {
+  const result = await generateBrainResponse('Anything?', { objectives: [], relationships: [] });
+
+  assert.equal(result.answer, EMPTY_GRAPH_ANSWER);
+  assert.deepEqual(result.citations, []);
+});
@@ -0,0 +1,168 @@
+import type { KnowledgeGraphSnapshot, ObjectiveDTO } from '../database.js';
+import { generateBrainInsight } from '../llm/agent.js';
+import { describeObjective, retrieveBrainContext, type ContextObjective } from './retrieval.js';
+
+export const EMPTY_GRAPH_ANSWER = 'The knowledge graph is empty. Add strategic objectives to ask contextual questions.';
+
+// Matches single or grouped references such as [O3], [R1] or [O1, O4]
+const CITATION_PATTERN = /\[((?:[OR]\d+)(?:\s*,\s*[OR]\d+)*)\]/g;
+
+// Prior turns are trimmed to this many messages to keep the prompt focused
+const MAX_HISTORY_MESSAGES = 6;
+const MAX_HISTORY_MESSAGE_CHARS = 800;
+
+export interface BrainTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type SnapshotRelationship = KnowledgeGraphSnapshot['relationships'][number];
+
+export interface BrainContext {
+  prompt: string;
+  objectiveRefs: Map<string, ObjectiveDTO>;
+  relationshipRefs: Map<string, SnapshotRelationship>;
+}
+
+export interface PreparedBrainContext {
+  context: BrainContext;
+  used: ContextObjective[];
+}
+
+export interface BrainAnswer {
+  answer: string;
+  contextObjectives: ContextObjective[];
+  citations: Array<{ ref: string; objective: ObjectiveDTO }>;
+  citedRelationships: Array<{
+    ref: string;
+    relationship: SnapshotRelationship;
+    fromText: string | null;
+    toText: string | null;
+  }>;
+}
+
+export async function generateBrainResponse(
+  question: string,
+  snapshot: KnowledgeGraphSnapshot,
+  history: BrainTurn[] = [],
+): Promise<BrainAnswer> {
+  if (snapshot.objectives.length === 0) {
+    return { answer: EMPTY_GRAPH_ANSWER, contextObjectives: [], citations: [], citedRelationships: [] };
+  }
+
+  const { context, used } = await prepareBrainContext(question, snapshot, history);
+  const answer = await generateBrainInsight(context.prompt);
+  return resolveCitations(answer, context, used);
+}
+
+export async function prepareBrainContext(
+  question: string,
+  snapshot: KnowledgeGraphSnapshot,
+  history: BrainTurn[] = [],
+): Promise<PreparedBrainContext> {
+  // Follow-ups like "what about its owner?" need the previous question to retrieve the right objectives
+  const previousQuestion = [...history].reverse().find((turn) => turn.role === 'user')?.content;
+  const retrievalQuery = previousQuestion ? `${previousQuestion}\n${question}` : question;
+  const retrieved = await retrieveBrainContext(retrievalQuery, snapshot);
+  return {
+    context: buildBrainContext(question, retrieved.snapshot, history),
+    used: retrieved.used,
+  };
+}
+
+// Objectives and connections are labelled O1…On / R1…Rn in digest order so the model can
+// cite them compactly; the maps translate those labels back to graph records.
+export function buildBrainContext(
+  question: string,
+  snapshot: KnowledgeGraphSnapshot,
+  history: BrainTurn[] = [],
+): BrainContext {
+  const objectiveRefs = new Map<string, ObjectiveDTO>();
+  const refByObjectiveId = new Map<string, string>();
+
+  snapshot.objectives.forEach((objective, index) => {
+    const ref = `O${index + 1}`;
+    objectiveRefs.set(ref, objective);
+    refByObjectiveId.set(objective.id, ref);
+  });
+
+  const relationshipRefs = new Map<string, SnapshotRelationship>();
+  for (const relationship of snapshot.relationships) {
+    if (!refByObjectiveId.has(relationship.fromId) || !refByObjectiveId.has(relationship.toId)) continue;
+    relationshipRefs.set(`R${relationshipRefs.size + 1}`, relationship);
+  }
+
+  const objectivesDigest = Array.from(objectiveRefs.entries())
+    .map(([ref, objective]) => `[${ref}] ${describeObjective(objective)}`)
+    .join('\n');
+
+  const relationshipsDigest = Array.from(relationshipRefs.entries())
+    .map(([ref, rel]) => {
+      const from = refByObjectiveId.get(rel.fromId);
+      const to = refByObjectiveId.get(rel.toId);
+      return `[${ref}] [${from}] ${rel.type} [${to}]${rel.rationale ? ` (${rel.rationale})` : ''}`;
+    })
+    .join('\n');
+
+  const historyDigest = history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((turn) => {
+      // Labels from earlier turns refer to a different digest, so drop them
+      const content = turn.content.replace(CITATION_PATTERN, '').trim().slice(0, MAX_HISTORY_MESSAGE_CHARS);
+      return `${turn.role === 'user' ? 'User' : 'Visium'}: ${content}`;
+    })
+    .join('\n');
+
+  const prompt = `You are the strategic memory for Visium. Users will ask about the current state of their objectives. Base your answer strictly on the provided objectives and relationships. Provide direct, actionable responses.
+
+Objectives:\n${objectivesDigest}
+
+Connections:\n${relationshipsDigest || 'none recorded yet'}
+${historyDigest ? `\nConversation so far:\n${historyDigest}\n` : ''}
+Question: ${question}
+
+Respond with:
+- A focused answer (2-4 sentences)
+- 2-3 suggested next actions when applicable
+- Call out data gaps if the graph lacks enough information.
+
+Cite the objectives and connections behind every claim using their labels in square brackets, e.g. [O2] or [O1, R3]. Only use labels listed above.`;
+
+  return { prompt, objectiveRefs, relationshipRefs };
+}
+
+export function resolveCitations(
+  answer: string,
+  context: BrainContext,
+  contextObjectives: ContextObjective[],
+): BrainAnswer {
+  const citations: BrainAnswer['citations'] = [];
+  const citedRelationships: BrainAnswer['citedRelationships'] = [];
+  const seen = new Set<string>();
+  const objectivesById = new Map(Array.from(context.objectiveRefs.values()).map((objective) => [objective.id, objective]));
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    for (const ref of match[1].split(',').map((value) => value.trim())) {
+      if (seen.has(ref)) continue;
+      seen.add(ref);
+
+      const objective = context.objectiveRefs.get(ref);
+      if (objective) {
+        citations.push({ ref, objective });
+        continue;
+      }
+
+      const relationship = context.relationshipRefs.get(ref);
+      if (relationship) {
+        citedRelationships.push({
+          ref,
+          relationship,
+          fromText: objectivesById.get(relationship.fromId)?.text ?? null,
+          toText: objectivesById.get(relationship.toId)?.text ?? null,
+        });
+      }
+    }
+  }
+
+  return { answer: answer.trim(), contextObjectives, citations, citedRelationships };
+}
@@ -0,0 +1,116 @@
+import { config } from '../config.js';
+import type { KnowledgeGraphSnapshot, ObjectiveDTO } from '../database.js';
+import { rankObjectivesForQuery } from '../related/related.js';
+
+const MAX_SEED_OBJECTIVES = 8;
+const MAX_HOPS = 2;
+// Rough chars-per-token ratio for English prose; good enough for budgeting prompts
+const CHARS_PER_TOKEN = 4;
+
+export interface ContextObjective {
+  id: string;
+  text: string;
+  reason: 'match' | 'neighbor' | 'recent';
+  score: number | null;
+  hops: number;
+}
+
+export interface RetrievedContext {
+  snapshot: KnowledgeGraphSnapshot;
+  used: ContextObjective[];
+}
+
+export function describeObjective(objective: ObjectiveDTO): string {
+  const tags = objective.tags.length > 0 ? ` tags: ${objective.tags.join(', ')}` : '';
+  const timeframe = objective.timeframe ? ` timeframe: ${objective.timeframe}` : '';
+  return `${objective.text} (status: ${objective.status}, priority: ${objective.priority}${timeframe}${tags})`;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Picks the objectives most relevant to the question, widens the selection to their 1–2 hop
+// neighbours in the relationship graph and trims the result to the prompt token budget.
+export async function retrieveBrainContext(
+  question: string,
+  snapshot: KnowledgeGraphSnapshot,
+  tokenBudget = config.BRAIN_CONTEXT_TOKEN_BUDGET,
+): Promise<RetrievedContext> {
+  const objectivesById = new Map(snapshot.objectives.map((objective) => [objective.id, objective]));
+  const ranking = await rankObjectivesForQuery(question, snapshot.objectives);
+
+  const candidates: ContextObjective[] = ranking.hits.slice(0, MAX_SEED_OBJECTIVES).map((hit) => ({
+    id: hit.id,
+    text: objectivesById.get(hit.id)?.text ?? '',
+    reason: 'match',
+    score: hit.score,
+    hops: 0,
+  }));
+
+  // Nothing matched the question: ground the answer in the most recently captured objectives
+  if (candidates.length === 0) {
+    for (const objective of snapshot.objectives.slice(0, MAX_SEED_OBJECTIVES)) {
+      candidates.push({ id: objective.id, text: objective.text, reason: 'recent', score: null, hops: 0 });
+    }
+  }
+
+  const adjacency = new Map<string, string[]>();
+  for (const rel of snapshot.relationships) {
+    adjacency.set(rel.fromId, [...(adjacency.get(rel.fromId) ?? []), rel.toId]);
+    adjacency.set(rel.toId, [...(adjacency.get(rel.toId) ?? []), rel.fromId]);
+  }
+
+  const selectedIds = new Set(candidates.map((candidate) => candidate.id));
+  let frontier = candidates.map((candidate) => candidate.id);
+  for (let hop = 1; hop <= MAX_HOPS && frontier.length > 0; hop += 1) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbourId of adjacency.get(id) ?? []) {
+        const neighbour = objectivesById.get(neighbourId);
+        if (!neighbour || selectedIds.has(neighbourId)) continue;
+        selectedIds.add(neighbourId);
+        next.push(neighbourId);
+        candidates.push({ id: neighbourId, text: neighbour.text, reason: 'neighbor', score: null, hops: hop });
+      }
+    }
+    frontier = next;
+  }
+
+  const used: ContextObjective[] = [];
+  const usedIds = new Set<string>();
+  let remaining = tokenBudget;
+
+  for (const candidate of candidates) {
+    const objective = objectivesById.get(candidate.id);
+    if (!objective) continue;
+    const cost = estimateTokens(describeObjective(objective));
+    if (cost > remaining) {
+      // Always keep at least the strongest match so the model has something to work with
+      if (used.length > 0) continue;
+    }
+    remaining -= cost;
+    used.push(candidate);
+    usedIds.add(candidate.id);
+  }
+
+  const relationships = snapshot.relationships.filter((rel) => {
+    if (!usedIds.has(rel.fromId) || !usedIds.has(rel.toId)) return false;
+    const cost = estimateTokens(`${rel.type} ${rel.rationale ?? ''}`) + 8;
+    if (cost > remaining) return false;
+    remaining -= cost;
+    return true;
+  });
+
+  console.log(
+    `🧠 [RETRIEVAL] Using ${used.length}/${snapshot.objectives.length} objectives and ${relationships.length} connections (${ranking.mode} ranking, ~${tokenBudget - remaining} tokens)`,
+  );
+
+  return {
+    snapshot: {
+      objectives: used.map((item) => objectivesById.get(item.id)).filter((value): value is ObjectiveDTO => Boolean(value)),
+      relationships,
+    },
+    used,
+  };
+}
@@ -5,9 +5,20 @@ dotenv.config();
 
 const envSchema = z.object({
   DATABASE_URL: z.string(),
+  LLM_PROVIDER: z.enum(['ollama', 'openai-compatible', 'fixture']).default('ollama'),
   OLLAMA_URL: z.string().default('http://localhost:11434'),
   OLLAMA_MODEL: z.string().default('llama3'),
+  OLLAMA_EMBEDDING_MODEL: z.string().default('nomic-embed-text'),
+  OPENAI_COMPAT_URL: z.string().default('http://localhost:8080/v1'),
+  OPENAI_COMPAT_MODEL: z.string().default('local-model'),
+  OPENAI_COMPAT_API_KEY: z.string().optional(),
+  LLM_FIXTURE_PATH: z.string().optional(),
   EMBEDDINGS_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  BRAIN_CONTEXT_TOKEN_BUDGET: z.string().transform(val => parseInt(val, 10)).default('2000'),
+  EXTRACTION_CHUNK_CHARS: z.string().transform(val => parseInt(val, 10)).default('6000'),
+  DUPLICATE_KEYWORD_THRESHOLD: z.string().transform(val => parseFloat(val)).default('0.6'),
+  DUPLICATE_EMBEDDING_THRESHOLD: z.string().transform(val => parseFloat(val)).default('0.9'),
+  EMBEDDING_BATCH_SIZE: z.string().transform(val => parseInt(val, 10)).default('25'),
   PORT: z.string().transform(val => parseInt(val, 10)).default('3001'),
 });
 
@@ -15,8 +26,19 @@ const env = envSchema.parse(process.env);
 
 export const config = {
   DATABASE_URL: env.DATABASE_URL,
+  LLM_PROVIDER: env.LLM_PROVIDER,
   OLLAMA_URL: env.OLLAMA_URL,
   OLLAMA_MODEL: env.OLLAMA_MODEL,
+  OLLAMA_EMBEDDING_MODEL: env.OLLAMA_EMBEDDING_MODEL,
+  OPENAI_COMPAT_URL: env.OPENAI_COMPAT_URL,
+  OPENAI_COMPAT_MODEL: env.OPENAI_COMPAT_MODEL,
+  OPENAI_COMPAT_API_KEY: env.OPENAI_COMPAT_API_KEY,
+  LLM_FIXTURE_PATH: env.LLM_FIXTURE_PATH,
   EMBEDDINGS_ENABLED: env.EMBEDDINGS_ENABLED,
+  BRAIN_CONTEXT_TOKEN_BUDGET: env.BRAIN_CONTEXT_TOKEN_BUDGET,
+  EXTRACTION_CHUNK_CHARS: env.EXTRACTION_CHUNK_CHARS,
+  DUPLICATE_KEYWORD_THRESHOLD: env.DUPLICATE_KEYWORD_THRESHOLD,
+  DUPLICATE_EMBEDDING_THRESHOLD: env.DUPLICATE_EMBEDDING_THRESHOLD,
+  EMBEDDING_BATCH_SIZE: env.EMBEDDING_BATCH_SIZE,
   PORT: env.PORT,
 };
\ No newline at end of file
@@ -1,15 +1,58 @@
 import {
   PrismaClient,
+  Prisma,
+  AuditAction,
+  AuditEntityType,
+  ConversationRole,
+  ExtractionJobKind,
+  ExtractionJobStatus,
   ObjectivePriority,
   ObjectiveStatus,
   ObjectiveRelationshipType,
+  type ObjectiveLevel,
+  ObjectiveReviewState,
   type Objective,
   type ObjectiveRelationship,
   type KnowledgeEntry,
+  type ExtractionJob,
+  type KeyResult,
+  type AuditEvent,
 } from '@prisma/client';
+import { averageProgress, keyResultProgress } from './hierarchy/progress.js';
+import type { GraphState } from './snapshots/graphDiff.js';
 
 export const prisma = new PrismaClient();
 
+// Trashed objectives keep their row, relationships and key results until purged
+// so a restore brings everything back; every read skips them.
+export const liveObjectiveFilter = {
+  deletedAt: null,
+} satisfies Prisma.ObjectiveWhereInput;
+
+// Discarded objectives stay in the database for reference but are hidden from
+// the graph, search results and prompt context.
+const visibleObjectiveFilter = {
+  ...liveObjectiveFilter,
+  reviewState: { not: ObjectiveReviewState.DISCARDED },
+} satisfies Prisma.ObjectiveWhereInput;
+
+const objectiveWithLinksInclude = {
+  outgoingLinks: {
+    where: { to: visibleObjectiveFilter },
+    include: {
+      to: {
+        select: {
+          id: true,
+          text: true,
+          status: true,
+          priority: true,
+        },
+      },
+    },
+  },
+  keyResults: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.ObjectiveInclude;
+
 export interface ObjectiveDraft {
   key: string;
   text: string;
@@ -24,6 +67,12 @@ export interface ObjectiveDraft {
   tags?: string[];
   sourceLabel?: string | null;
   sourceExcerpt?: string | null;
+  // Character offsets of the excerpt in the entry's raw content, when it could be located
+  sourceStart?: number | null;
+  sourceEnd?: number | null;
+  level?: ObjectiveLevel | null;
+  // Key of a draft in the same batch or existing:<id> of the objective this one rolls up to
+  parentKey?: string | null;
 }
 
 export interface RelationshipDraft {
@@ -37,6 +86,8 @@ export interface RelationshipDraft {
 export interface CreateKnowledgeGraphArgs {
   rawContent: string;
   title?: string | null;
+  sourceFormat?: string | null;
+  extractionModel?: string | null;
   objectives: ObjectiveDraft[];
   relationships: RelationshipDraft[];
 }
@@ -45,88 +96,223 @@ export interface KnowledgeGraphWriteResult {
   entry: KnowledgeEntry;
   objectives: Objective[];
   relationships: ObjectiveRelationship[];
+  // Draft key → stored objective id
+  keyToId: Map<string, string>;
 }
 
 export async function createKnowledgeGraphEntry({
   rawContent,
   title,
+  sourceFormat,
+  extractionModel,
   objectives,
   relationships,
-}: CreateKnowledgeGraphArgs): Promise<KnowledgeGraphWriteResult> {
+}: CreateKnowledgeGraphArgs, audit: AuditContext = { ...SYSTEM_AUDIT, reason: 'extraction' }): Promise<KnowledgeGraphWriteResult> {
   return await prisma.$transaction(async (tx) => {
     const entry = await tx.knowledgeEntry.create({
       data: {
         rawContent,
         title: title ?? null,
+        sourceFormat: sourceFormat ?? null,
+        extractionModel: extractionModel ?? null,
       },
     });
 
-    const keyToId = new Map<string, string>();
-    const createdObjectives: Objective[] = [];
-
-    for (const objective of objectives) {
-      const created = await tx.objective.create({
-        data: {
-          text: objective.text,
-          context: objective.context ?? null,
-          category: objective.category ?? null,
-          timeframe: objective.timeframe ?? null,
-          status: objective.status ?? ObjectiveStatus.PROPOSED,
-          priority: objective.priority ?? ObjectivePriority.MEDIUM,
-          confidence: objective.confidence ?? null,
-          owner: objective.owner ?? null,
-          metrics: objective.metrics ?? [],
-          tags: objective.tags ?? [],
-          sourceLabel: objective.sourceLabel ?? null,
-          sourceExcerpt: objective.sourceExcerpt ?? null,
-          entryId: entry.id,
-        },
-      });
+    const { keyToId, created: createdObjectives } = await createObjectiveDrafts(tx, objectives, entry.id, audit);
+    const createdRelationships = await upsertRelationshipDrafts(tx, relationships, keyToId, audit);
+
+    return {
+      entry,
+      objectives: createdObjectives,
+      relationships: createdRelationships,
+      keyToId,
+    } satisfies KnowledgeGraphWriteResult;
+  });
+}
+
+export async function addObjectiveToEntry(
+  entryId: string,
+  draft: ObjectiveDraft,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<Objective> {
+  return await prisma.$transaction(async (tx) => {
+    const { created } = await createObjectiveDrafts(tx, [draft], entryId, audit);
+    return created[0];
+  });
+}
+
+async function createObjectiveDrafts(
+  tx: Prisma.TransactionClient,
+  objectives: ObjectiveDraft[],
+  entryId: string,
+  audit: AuditContext,
+): Promise<{ keyToId: Map<string, string>; created: Objective[] }> {
+  const keyToId = new Map<string, string>();
+  const created: Objective[] = [];
+
+  for (const objective of objectives) {
+    const record = await tx.objective.create({
+      data: {
+        text: objective.text,
+        context: objective.context ?? null,
+        category: objective.category ?? null,
+        timeframe: objective.timeframe ?? null,
+        status: objective.status ?? ObjectiveStatus.PROPOSED,
+        priority: objective.priority ?? ObjectivePriority.MEDIUM,
+        confidence: objective.confidence ?? null,
+        owner: objective.owner ?? null,
+        metrics: objective.metrics ?? [],
+        tags: objective.tags ?? [],
+        sourceLabel: objective.sourceLabel ?? null,
+        sourceExcerpt: objective.sourceExcerpt ?? null,
+        sourceStart: objective.sourceStart ?? null,
+        sourceEnd: objective.sourceEnd ?? null,
+        level: objective.level ?? null,
+        entryId,
+      },
+    });
+
+    keyToId.set(objective.key, record.id);
+    created.push(record);
+  }
+
+  await linkDraftParents(tx, objectives, keyToId, created);
+  await recordAuditEvents(tx, audit, created.map((record) => objectiveAuditEvent(null, record)));
+  return { keyToId, created };
+}
 
-      keyToId.set(objective.key, created.id);
-      createdObjectives.push(created);
+// Parents are set after every draft exists so a batch can reference its own keys
+async function linkDraftParents(
+  tx: Prisma.TransactionClient,
+  objectives: ObjectiveDraft[],
+  keyToId: Map<string, string>,
+  created: Objective[],
+): Promise<void> {
+  const requested = new Map<string, string>();
+  for (const objective of objectives) {
+    const id = keyToId.get(objective.key);
+    const parentId = objective.parentKey ? resolveReference(objective.parentKey, keyToId) : null;
+    if (id && parentId && parentId !== id) requested.set(id, parentId);
+  }
+  if (requested.size === 0) return;
+
+  const batchIds = new Set(keyToId.values());
+  const externalIds = Array.from(new Set(requested.values())).filter((id) => !batchIds.has(id));
+  const existing = new Set(
+    (
+      await tx.objective.findMany({ where: { id: { in: externalIds }, ...liveObjectiveFilter }, select: { id: true } })
+    ).map((row) => row.id),
+  );
+
+  for (const [id, parentId] of requested) {
+    if (!batchIds.has(parentId) && !existing.has(parentId)) continue;
+
+    // Walk up the requested chain within the batch; a loop back to this objective means a cycle
+    let cursor: string | undefined = parentId;
+    const visited = new Set<string>();
+    while (cursor && cursor !== id && !visited.has(cursor)) {
+      visited.add(cursor);
+      cursor = requested.get(cursor);
+    }
+    if (cursor === id) {
+      requested.delete(id);
+      continue;
     }
 
-    const createdRelationships: ObjectiveRelationship[] = [];
+    const record = await tx.objective.update({ where: { id }, data: { parentId } });
+    created.splice(created.findIndex((objective) => objective.id === id), 1, record);
+  }
+}
 
-    for (const relationship of relationships) {
-      const fromId = resolveReference(relationship.from, keyToId);
-      const toId = resolveReference(relationship.to, keyToId);
+/**
+ * Explains why `parentId` cannot become the parent of `id` (missing parent or
+ * a cycle), or returns null when the move is allowed.
+ */
+export async function findHierarchyConflict(id: string, parentId: string): Promise<string | null> {
+  if (id === parentId) return 'An objective cannot be its own parent';
 
-      if (!fromId || !toId || fromId === toId) {
-        continue;
-      }
+  let cursor: string | null = parentId;
+  const visited = new Set<string>();
+  while (cursor && !visited.has(cursor)) {
+    visited.add(cursor);
+    const row: { parentId: string | null } | null = await prisma.objective.findFirst({
+      where: { id: cursor, ...liveObjectiveFilter },
+      select: { parentId: true },
+    });
+    if (!row) return cursor === parentId ? 'Parent objective not found' : null;
+    if (row.parentId === id) return 'The parent is already nested under this objective';
+    cursor = row.parentId;
+  }
 
-      const rel = await tx.objectiveRelationship.upsert({
-        where: {
-          fromId_toId_type: {
-            fromId,
-            toId,
-            type: relationship.type,
-          },
-        },
-        update: {
-          rationale: relationship.rationale ?? undefined,
-          weight: relationship.weight ?? undefined,
-        },
-        create: {
+  return null;
+}
+
+async function upsertRelationshipDrafts(
+  tx: Prisma.TransactionClient,
+  relationships: RelationshipDraft[],
+  keyToId: Map<string, string>,
+  audit: AuditContext,
+): Promise<ObjectiveRelationship[]> {
+  const upserted: ObjectiveRelationship[] = [];
+  const events: Array<AuditEventInput | null> = [];
+
+  const resolved = relationships.flatMap((relationship) => {
+    const fromId = resolveReference(relationship.from, keyToId);
+    const toId = resolveReference(relationship.to, keyToId);
+    return fromId && toId && fromId !== toId ? [{ relationship, fromId, toId }] : [];
+  });
+
+  // `existing:` references come from the model and may point at trashed, discarded or purged objectives
+  const batchIds = new Set(keyToId.values());
+  const externalIds = Array.from(
+    new Set(resolved.flatMap(({ fromId, toId }) => [fromId, toId]).filter((id) => !batchIds.has(id))),
+  );
+  const visibleIds = new Set(
+    (
+      await tx.objective.findMany({ where: { id: { in: externalIds }, ...visibleObjectiveFilter }, select: { id: true } })
+    ).map((row) => row.id),
+  );
+  const isLinkable = (id: string) => batchIds.has(id) || visibleIds.has(id);
+
+  for (const { relationship, fromId, toId } of resolved) {
+    if (!isLinkable(fromId) || !isLinkable(toId)) {
+      continue;
+    }
+
+    const existing = await tx.objectiveRelationship.findUnique({
+      where: {
+        fromId_toId_type: {
           fromId,
           toId,
           type: relationship.type,
-          rationale: relationship.rationale ?? null,
-          weight: relationship.weight ?? null,
         },
-      });
+      },
+    });
 
-      createdRelationships.push(rel);
-    }
+    const rel = existing
+      ? await tx.objectiveRelationship.update({
+          where: { id: existing.id },
+          data: {
+            rationale: relationship.rationale ?? undefined,
+            weight: relationship.weight ?? undefined,
+          },
+        })
+      : await tx.objectiveRelationship.create({
+          data: {
+            fromId,
+            toId,
+            type: relationship.type,
+            rationale: relationship.rationale ?? null,
+            weight: relationship.weight ?? null,
+          },
+        });
 
-    return {
-      entry,
-      objectives: createdObjectives,
-      relationships: createdRelationships,
-    } satisfies KnowledgeGraphWriteResult;
-  });
+    events.push(relationshipAuditEvent(existing, rel));
+    upserted.push(rel);
+  }
+
+  await recordAuditEvents(tx, audit, events);
+  return upserted;
 }
 
 function resolveReference(ref: string, keyToId: Map<string, string>): string | null {
@@ -156,36 +342,32 @@ export interface ObjectiveDTO {
   timeframe: string | null;
   status: ObjectiveStatus;
   priority: ObjectivePriority;
+  reviewState: ObjectiveReviewState;
   confidence: number | null;
   owner: string | null;
   metrics: string[];
   tags: string[];
   sourceLabel: string | null;
   sourceExcerpt: string | null;
+  sourceStart: number | null;
+  sourceEnd: number | null;
+  level: ObjectiveLevel | null;
+  parentId: string | null;
+  entryId: string | null;
   createdAt: Date;
   updatedAt: Date;
   related: ObjectiveRelationDTO[];
+  keyResults: KeyResultDTO[];
+  progress: number | null;
 }
 
 export async function getObjectivesWithRelations(limit = 50, offset = 0): Promise<ObjectiveDTO[]> {
   const objectives = await prisma.objective.findMany({
+    where: visibleObjectiveFilter,
     orderBy: { createdAt: 'desc' },
     take: limit,
     skip: offset,
-    include: {
-      outgoingLinks: {
-        include: {
-          to: {
-            select: {
-              id: true,
-              text: true,
-              status: true,
-              priority: true,
-            },
-          },
-        },
-      },
-    },
+    include: objectiveWithLinksInclude,
   });
 
   return objectives.map(mapObjectiveToDTO);
@@ -198,6 +380,7 @@ export async function searchObjectives(
 ): Promise<ObjectiveDTO[]> {
   const objectives = await prisma.objective.findMany({
     where: {
+      ...visibleObjectiveFilter,
       OR: [
         {
           text: {
@@ -215,20 +398,7 @@ export async function searchObjectives(
     orderBy: { createdAt: 'desc' },
     take: limit,
     skip: offset,
-    include: {
-      outgoingLinks: {
-        include: {
-          to: {
-            select: {
-              id: true,
-              text: true,
-              status: true,
-              priority: true,
-            },
-          },
-        },
-      },
-    },
+    include: objectiveWithLinksInclude,
   });
 
   return objectives.map(mapObjectiveToDTO);
@@ -247,6 +417,7 @@ export interface ObjectiveSummaryForPrompt {
 
 export async function getObjectivesForPrompt(limit = 20): Promise<ObjectiveSummaryForPrompt[]> {
   const objectives = await prisma.objective.findMany({
+    where: visibleObjectiveFilter,
     orderBy: { updatedAt: 'desc' },
     take: limit,
     select: {
@@ -264,6 +435,42 @@ export async function getObjectivesForPrompt(limit = 20): Promise<ObjectiveSumma
   return objectives;
 }
 
+export interface RelatednessCandidate {
+  id: string;
+  text: string;
+  context: string | null;
+  metrics: string[];
+}
+
+export async function getRelatednessCandidates(limit = 200): Promise<RelatednessCandidate[]> {
+  return await prisma.objective.findMany({
+    where: visibleObjectiveFilter,
+    orderBy: { updatedAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      text: true,
+      context: true,
+      metrics: true,
+    },
+  });
+}
+
+export async function getRelationshipEndpoints(
+  objectiveIds: string[],
+): Promise<Array<{ fromId: string; toId: string }>> {
+  if (objectiveIds.length === 0) return [];
+
+  return await prisma.objectiveRelationship.findMany({
+    where: {
+      OR: [{ fromId: { in: objectiveIds } }, { toId: { in: objectiveIds } }],
+      from: liveObjectiveFilter,
+      to: liveObjectiveFilter,
+    },
+    select: { fromId: true, toId: true },
+  });
+}
+
 export interface KnowledgeGraphSnapshot {
   objectives: ObjectiveDTO[];
   relationships: Array<{
@@ -278,24 +485,16 @@ export interface KnowledgeGraphSnapshot {
 
 export async function getKnowledgeGraphSnapshot(): Promise<KnowledgeGraphSnapshot> {
   const objectives = await prisma.objective.findMany({
+    where: visibleObjectiveFilter,
     orderBy: { createdAt: 'desc' },
-    include: {
-      outgoingLinks: {
-        include: {
-          to: {
-            select: {
-              id: true,
-              text: true,
-              status: true,
-              priority: true,
-            },
-          },
-        },
-      },
-    },
+    include: objectiveWithLinksInclude,
   });
 
   const relationships = await prisma.objectiveRelationship.findMany({
+    where: {
+      from: visibleObjectiveFilter,
+      to: visibleObjectiveFilter,
+    },
     orderBy: { createdAt: 'desc' },
     select: {
       id: true,
@@ -313,7 +512,147 @@ export async function getKnowledgeGraphSnapshot(): Promise<KnowledgeGraphSnapsho
   } satisfies KnowledgeGraphSnapshot;
 }
 
+/** Compact copy of the visible graph, as stored in named snapshots. */
+export async function getCurrentGraphState(): Promise<GraphState> {
+  const [objectives, relationships] = await Promise.all([
+    prisma.objective.findMany({
+      where: visibleObjectiveFilter,
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        text: true,
+        status: true,
+        priority: true,
+        level: true,
+        parentId: true,
+        keyResults: { select: { baseline: true, target: true, currentValue: true } },
+      },
+    }),
+    prisma.objectiveRelationship.findMany({
+      where: {
+        from: visibleObjectiveFilter,
+        to: visibleObjectiveFilter,
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, fromId: true, toId: true, type: true },
+    }),
+  ]);
+
+  return {
+    objectives: objectives.map(({ keyResults, ...objective }) => ({
+      ...objective,
+      progress: averageProgress(keyResults.map(keyResultProgress)),
+    })),
+    relationships,
+  };
+}
+
+export interface GraphSnapshotSummaryDTO {
+  id: string;
+  name: string;
+  note: string | null;
+  objectiveCount: number;
+  relationshipCount: number;
+  createdAt: Date;
+}
+
+export interface GraphSnapshotDTO extends GraphSnapshotSummaryDTO {
+  state: GraphState;
+}
+
+const graphSnapshotSummarySelect = {
+  id: true,
+  name: true,
+  note: true,
+  objectiveCount: true,
+  relationshipCount: true,
+  createdAt: true,
+} satisfies Prisma.GraphSnapshotSelect;
+
+export async function createGraphSnapshot(name: string, note: string | null = null): Promise<GraphSnapshotSummaryDTO> {
+  const state = await getCurrentGraphState();
+
+  return await prisma.graphSnapshot.create({
+    data: {
+      name,
+      note,
+      objectives: JSON.parse(JSON.stringify(state.objectives)) as Prisma.InputJsonValue,
+      relationships: JSON.parse(JSON.stringify(state.relationships)) as Prisma.InputJsonValue,
+      objectiveCount: state.objectives.length,
+      relationshipCount: state.relationships.length,
+    },
+    select: graphSnapshotSummarySelect,
+  });
+}
+
+export async function listGraphSnapshots(limit = 50): Promise<GraphSnapshotSummaryDTO[]> {
+  return await prisma.graphSnapshot.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: graphSnapshotSummarySelect,
+  });
+}
+
+export async function getGraphSnapshotById(id: string): Promise<GraphSnapshotDTO | null> {
+  const snapshot = await prisma.graphSnapshot.findUnique({ where: { id } });
+  if (!snapshot) return null;
+
+  const { objectives, relationships, ...summary } = snapshot;
+  return {
+    ...summary,
+    state: {
+      objectives: objectives as unknown as GraphState['objectives'],
+      relationships: relationships as unknown as GraphState['relationships'],
+    },
+  };
+}
+
+export async function deleteGraphSnapshot(id: string): Promise<void> {
+  await prisma.graphSnapshot.delete({ where: { id } });
+}
+
+export interface HierarchyObjective {
+  id: string;
+  text: string;
+  level: ObjectiveLevel | null;
+  parentId: string | null;
+  status: ObjectiveStatus;
+  priority: ObjectivePriority;
+  reviewState: ObjectiveReviewState;
+  owner: string | null;
+  timeframe: string | null;
+  // Average progress of the objective's own key results; null when it has none
+  progress: number | null;
+  createdAt: Date;
+}
+
+export async function getHierarchyObjectives(): Promise<HierarchyObjective[]> {
+  const objectives = await prisma.objective.findMany({
+    where: visibleObjectiveFilter,
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      text: true,
+      level: true,
+      parentId: true,
+      status: true,
+      priority: true,
+      reviewState: true,
+      owner: true,
+      timeframe: true,
+      createdAt: true,
+      keyResults: { select: { baseline: true, target: true, currentValue: true } },
+    },
+  });
+
+  return objectives.map(({ keyResults, ...objective }) => ({
+    ...objective,
+    progress: averageProgress(keyResults.map(keyResultProgress)),
+  }));
+}
+
 function mapObjectiveToDTO(objective: Objective & {
+  keyResults: KeyResult[];
   outgoingLinks: Array<
     ObjectiveRelationship & {
       to: {
@@ -325,6 +664,8 @@ function mapObjectiveToDTO(objective: Objective & {
     }
   >;
 }): ObjectiveDTO {
+  const keyResults = objective.keyResults.map(mapKeyResultToDTO);
+
   return {
     id: objective.id,
     text: objective.text,
@@ -333,12 +674,18 @@ function mapObjectiveToDTO(objective: Objective & {
     timeframe: objective.timeframe,
     status: objective.status,
     priority: objective.priority,
+    reviewState: objective.reviewState,
     confidence: objective.confidence,
     owner: objective.owner,
     metrics: objective.metrics,
     tags: objective.tags,
     sourceLabel: objective.sourceLabel,
     sourceExcerpt: objective.sourceExcerpt,
+    sourceStart: objective.sourceStart,
+    sourceEnd: objective.sourceEnd,
+    level: objective.level,
+    parentId: objective.parentId,
+    entryId: objective.entryId,
     createdAt: objective.createdAt,
     updatedAt: objective.updatedAt,
     related: objective.outgoingLinks.map((link) => ({
@@ -353,6 +700,8 @@ function mapObjectiveToDTO(objective: Objective & {
         priority: link.to.priority,
       },
     })),
+    keyResults,
+    progress: averageProgress(keyResults.map((keyResult) => keyResult.progress)),
   };
 }
 
@@ -360,140 +709,1440 @@ export async function getObjectivesByIds(ids: string[]): Promise<ObjectiveDTO[]>
   if (ids.length === 0) return [];
 
   const objectives = await prisma.objective.findMany({
-    where: { id: { in: ids } },
-    include: {
-      outgoingLinks: {
-        include: {
-          to: {
-            select: {
-              id: true,
-              text: true,
-              status: true,
-              priority: true,
-            },
-          },
-        },
-      },
-    },
+    where: { id: { in: ids }, ...liveObjectiveFilter },
+    include: objectiveWithLinksInclude,
   });
 
   return objectives.map(mapObjectiveToDTO);
 }
 
-type RelationshipWithTarget = ObjectiveRelationship & {
-  to: {
-    id: string;
-    text: string;
-    status: ObjectiveStatus;
-    priority: ObjectivePriority;
-  };
-};
+export async function getObjectivesForReview(limit = 50): Promise<ObjectiveDTO[]> {
+  const objectives = await prisma.objective.findMany({
+    where: { reviewState: ObjectiveReviewState.PENDING, ...liveObjectiveFilter },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+    include: objectiveWithLinksInclude,
+  });
 
-function mapRelationshipToDTO(relationship: RelationshipWithTarget): ObjectiveRelationDTO {
-  return {
-    id: relationship.id,
-    type: relationship.type,
-    rationale: relationship.rationale,
-    weight: relationship.weight,
-    target: {
-      id: relationship.to.id,
-      text: relationship.to.text,
-      status: relationship.to.status,
-      priority: relationship.to.priority,
-    },
-  } satisfies ObjectiveRelationDTO;
+  return objectives.map(mapObjectiveToDTO);
 }
 
-export async function createObjectiveRelationshipRecord(input: {
-  fromId: string;
-  toId: string;
-  type: ObjectiveRelationshipType;
-  rationale?: string | null;
-  weight?: number | null;
-}): Promise<{ fromId: string; relationship: ObjectiveRelationDTO }> {
-  const relationship = await prisma.objectiveRelationship.create({
-    data: {
-      fromId: input.fromId,
-      toId: input.toId,
-      type: input.type,
-      rationale: input.rationale ?? null,
-      weight: input.weight ?? null,
-    },
-    include: {
-      to: {
-        select: {
-          id: true,
-          text: true,
-          status: true,
-          priority: true,
-        },
-      },
-    },
-  });
+export interface KnowledgeEntrySummaryDTO {
+  id: string;
+  title: string | null;
+  sourceFormat: string | null;
+  extractionModel: string | null;
+  createdAt: Date;
+  preview: string;
+  characterCount: number;
+  objectiveCount: number;
+}
+
+export interface KnowledgeEntryDTO extends Omit<KnowledgeEntrySummaryDTO, 'preview'> {
+  rawContent: string;
+  objectives: ObjectiveDTO[];
+}
+
+const ENTRY_PREVIEW_LENGTH = 240;
+
+export async function listKnowledgeEntries(
+  { limit = 50, offset = 0, query }: { limit?: number; offset?: number; query?: string } = {},
+): Promise<{ entries: KnowledgeEntrySummaryDTO[]; total: number }> {
+  const where: Prisma.KnowledgeEntryWhereInput | undefined = query
+    ? {
+        OR: [
+          { title: { contains: query, mode: 'insensitive' } },
+          { rawContent: { contains: query, mode: 'insensitive' } },
+        ],
+      }
+    : undefined;
+
+  const [entries, total] = await Promise.all([
+    prisma.knowledgeEntry.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+      include: { _count: { select: { objectives: { where: liveObjectiveFilter } } } },
+    }),
+    prisma.knowledgeEntry.count({ where }),
+  ]);
 
   return {
-    fromId: relationship.fromId,
-    relationship: mapRelationshipToDTO(relationship),
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      title: entry.title,
+      sourceFormat: entry.sourceFormat,
+      extractionModel: entry.extractionModel,
+      createdAt: entry.createdAt,
+      preview:
+        entry.rawContent.length > ENTRY_PREVIEW_LENGTH
+          ? `${entry.rawContent.slice(0, ENTRY_PREVIEW_LENGTH)}…`
+          : entry.rawContent,
+      characterCount: entry.rawContent.length,
+      objectiveCount: entry._count.objectives,
+    })),
+    total,
   };
 }
 
-export async function updateObjectiveRelationshipRecord(
-  id: string,
-  updates: {
-    toId?: string;
-    type?: ObjectiveRelationshipType;
-    rationale?: string | null;
-    weight?: number | null;
-  },
-): Promise<{ fromId: string; relationship: ObjectiveRelationDTO }> {
-  const relationship = await prisma.objectiveRelationship.update({
+// Includes discarded objectives so the entry shows everything its intake produced
+export async function getKnowledgeEntryById(id: string): Promise<KnowledgeEntryDTO | null> {
+  const entry = await prisma.knowledgeEntry.findUnique({
     where: { id },
-    data: {
-      toId: updates.toId,
-      type: updates.type,
-      rationale: updates.rationale === undefined ? undefined : updates.rationale,
-      weight: updates.weight === undefined ? undefined : updates.weight,
-    },
     include: {
-      to: {
-        select: {
-          id: true,
-          text: true,
-          status: true,
-          priority: true,
-        },
+      objectives: {
+        where: liveObjectiveFilter,
+        orderBy: { createdAt: 'asc' },
+        include: objectiveWithLinksInclude,
       },
     },
   });
 
+  if (!entry) return null;
+
   return {
-    fromId: relationship.fromId,
-    relationship: mapRelationshipToDTO(relationship),
+    id: entry.id,
+    title: entry.title,
+    sourceFormat: entry.sourceFormat,
+    extractionModel: entry.extractionModel,
+    createdAt: entry.createdAt,
+    rawContent: entry.rawContent,
+    characterCount: entry.rawContent.length,
+    objectiveCount: entry.objectives.length,
+    objectives: entry.objectives.map(mapObjectiveToDTO),
   };
 }
 
-export async function deleteObjectiveRelationshipRecord(id: string): Promise<{ id: string; fromId: string }> {
-  const relationship = await prisma.objectiveRelationship.delete({
-    where: { id },
-    select: {
-      id: true,
-      fromId: true,
+/** Entries with at least one objective whose excerpt has not been located in the raw text yet. */
+export async function listEntryIdsMissingSourceSpans(): Promise<string[]> {
+  const rows = await prisma.objective.findMany({
+    where: { sourceStart: null, sourceExcerpt: { not: null }, entryId: { not: null } },
+    select: { entryId: true },
+    distinct: ['entryId'],
+  });
+  return rows.flatMap((row) => (row.entryId ? [row.entryId] : []));
+}
+
+/**
+ * Stores offsets located after the fact. Like embeddings, they are derived from text the
+ * objective already had, so they skip the audit log and leave `updatedAt` alone; otherwise a
+ * backfill would make every older objective look freshly edited.
+ */
+export async function saveObjectiveSourceSpans(spans: Array<{ id: string; start: number; end: number }>): Promise<void> {
+  await prisma.$transaction(
+    spans.map(
+      ({ id, start, end }) => prisma.$executeRaw`
+        UPDATE objectives
+        SET "sourceStart" = ${start}, "sourceEnd" = ${end}
+        WHERE id = ${id}
+      `,
+    ),
+  );
+}
+
+export async function findObjectivesByTexts(
+  texts: string[],
+): Promise<Array<{ id: string; text: string; entryId: string | null }>> {
+  if (texts.length === 0) return [];
+
+  return await prisma.objective.findMany({
+    where: {
+      ...liveObjectiveFilter,
+      OR: texts.map((text) => ({ text: { equals: text, mode: 'insensitive' as const } })),
+    },
+    select: { id: true, text: true, entryId: true },
+  });
+}
+
+export interface EntryReextractionChanges {
+  create: ObjectiveDraft[];
+  update: Array<{ id: string; changes: ObjectiveUpdateInput }>;
+  discardIds: string[];
+  relationships: RelationshipDraft[];
+  extractionModel: string | null;
+}
+
+/**
+ * Applies a reviewed re-extraction to an entry in one transaction. Returns null
+ * when the job was already applied (or is not a finished job for this entry),
+ * so a double submit never writes the same objectives twice.
+ */
+export async function applyEntryReextraction(
+  entryId: string,
+  jobId: string,
+  changes: EntryReextractionChanges,
+  audit: AuditContext = { ...SYSTEM_AUDIT, reason: 'reextraction' },
+): Promise<{ created: Objective[]; updated: number; discarded: number; relationships: number } | null> {
+  return await prisma.$transaction(async (tx) => {
+    const claimed = await tx.extractionJob.updateMany({
+      where: {
+        id: jobId,
+        entryId,
+        kind: ExtractionJobKind.REEXTRACT,
+        status: ExtractionJobStatus.DONE,
+        appliedAt: null,
+      },
+      data: { appliedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const { keyToId, created } = await createObjectiveDrafts(tx, changes.create, entryId, audit);
+
+    const events: Array<AuditEventInput | null> = [];
+    let updated = 0;
+    for (const { id, changes: objectiveChanges } of changes.update) {
+      // Objectives trashed since the proposal was built stay untouched
+      const before = await tx.objective.findFirst({ where: { id, ...liveObjectiveFilter } });
+      if (!before) continue;
+
+      const after = await tx.objective.update({
+        where: { id },
+        data: toObjectiveUpdateData(objectiveChanges),
+      });
+      events.push(objectiveAuditEvent(before, after));
+      updated += 1;
+    }
+
+    const discarding = changes.discardIds.length > 0
+      ? await tx.objective.findMany({ where: { id: { in: changes.discardIds }, entryId, ...liveObjectiveFilter } })
+      : [];
+    const discarded = discarding.length > 0
+      ? await tx.objective.updateMany({
+          where: { id: { in: discarding.map((record) => record.id) } },
+          data: { reviewState: ObjectiveReviewState.DISCARDED },
+        })
+      : { count: 0 };
+    events.push(
+      ...discarding.map((record) =>
+        objectiveAuditEvent(record, { ...record, reviewState: ObjectiveReviewState.DISCARDED }),
+      ),
+    );
+    await recordAuditEvents(tx, audit, events);
+
+    const relationships = await upsertRelationshipDrafts(tx, changes.relationships, keyToId, audit);
+
+    await tx.knowledgeEntry.update({
+      where: { id: entryId },
+      data: { extractionModel: changes.extractionModel },
+    });
+
+    return {
+      created,
+      updated,
+      discarded: discarded.count,
+      relationships: relationships.length,
+    };
+  });
+}
+
+export interface ObjectiveUpdateInput {
+  text?: string;
+  context?: string | null;
+  category?: string | null;
+  timeframe?: string | null;
+  status?: ObjectiveStatus;
+  priority?: ObjectivePriority;
+  confidence?: number | null;
+  owner?: string | null;
+  metrics?: string[];
+  tags?: string[];
+  sourceExcerpt?: string | null;
+  sourceStart?: number | null;
+  sourceEnd?: number | null;
+  level?: ObjectiveLevel | null;
+  parentId?: string | null;
+}
+
+export async function updateObjectiveRecord(
+  id: string,
+  updates: ObjectiveUpdateInput,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<ObjectiveDTO> {
+  return await prisma.$transaction(async (tx) => {
+    const before = await tx.objective.findUnique({ where: { id } });
+    const objective = await tx.objective.update({
+      where: { id, ...liveObjectiveFilter },
+      data: toObjectiveUpdateData(updates),
+      include: objectiveWithLinksInclude,
+    });
+    await recordAuditEvents(tx, audit, [objectiveAuditEvent(before, objective)]);
+
+    return mapObjectiveToDTO(objective);
+  });
+}
+
+function toObjectiveUpdateData(updates: ObjectiveUpdateInput): Prisma.ObjectiveUpdateInput {
+  // Stored embeddings cover text, context and metrics; drop them when any of those change.
+  const embeddingStale = updates.text !== undefined || updates.context !== undefined || updates.metrics !== undefined;
+
+  return {
+    text: updates.text,
+    context: updates.context,
+    category: updates.category,
+    timeframe: updates.timeframe,
+    status: updates.status,
+    priority: updates.priority,
+    confidence: updates.confidence,
+    owner: updates.owner,
+    metrics: updates.metrics,
+    tags: updates.tags,
+    sourceExcerpt: updates.sourceExcerpt,
+    sourceStart: updates.sourceStart,
+    sourceEnd: updates.sourceEnd,
+    level: updates.level,
+    parent:
+      updates.parentId === undefined
+        ? undefined
+        : updates.parentId === null
+        ? { disconnect: true }
+        : { connect: { id: updates.parentId } },
+    ...(embeddingStale ? { embedding: [], embeddingModel: null } : {}),
+  };
+}
+
+export async function getObjectiveEmbeddings(
+  ids: string[],
+): Promise<Map<string, { embedding: number[]; embeddingModel: string | null }>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await prisma.objective.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, embedding: true, embeddingModel: true },
+  });
+
+  return new Map(rows.map((row) => [row.id, { embedding: row.embedding, embeddingModel: row.embeddingModel }]));
+}
+
+/** Live objectives with no vector from the given model yet, oldest first. */
+export async function listObjectivesMissingEmbeddings(
+  model: string,
+  limit: number,
+): Promise<Array<{ id: string; text: string; context: string | null; metrics: string[] }>> {
+  return await prisma.objective.findMany({
+    where: {
+      ...liveObjectiveFilter,
+      OR: [{ embeddingModel: null }, { embeddingModel: { not: model } }, { embedding: { isEmpty: true } }],
     },
+    select: { id: true, text: true, context: true, metrics: true },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
   });
+}
+
+/**
+ * Stores a cached vector without going through `objective.update`, which would bump
+ * `updatedAt` and make a background backfill look like an edit.
+ */
+export async function saveObjectiveEmbedding(id: string, embedding: number[], model: string): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE objectives
+    SET embedding = ${embedding}::double precision[], "embeddingModel" = ${model}
+    WHERE id = ${id}
+  `;
+}
+
+export async function setObjectiveReviewState(
+  id: string,
+  reviewState: ObjectiveReviewState,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<ObjectiveDTO> {
+  return await prisma.$transaction(async (tx) => {
+    const before = await tx.objective.findUnique({ where: { id } });
+    const objective = await tx.objective.update({
+      where: { id, ...liveObjectiveFilter },
+      data: { reviewState },
+      include: objectiveWithLinksInclude,
+    });
+    await recordAuditEvents(tx, audit, [objectiveAuditEvent(before, objective)]);
+
+    return mapObjectiveToDTO(objective);
+  });
+}
 
+type RelationshipWithTarget = ObjectiveRelationship & {
+  to: {
+    id: string;
+    text: string;
+    status: ObjectiveStatus;
+    priority: ObjectivePriority;
+  };
+};
+
+function mapRelationshipToDTO(relationship: RelationshipWithTarget): ObjectiveRelationDTO {
+  return {
+    id: relationship.id,
+    type: relationship.type,
+    rationale: relationship.rationale,
+    weight: relationship.weight,
+    target: {
+      id: relationship.to.id,
+      text: relationship.to.text,
+      status: relationship.to.status,
+      priority: relationship.to.priority,
+    },
+  } satisfies ObjectiveRelationDTO;
+}
+
+export class RelationshipError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: 400 | 404 | 409,
+  ) {
+    super(message);
+    this.name = 'RelationshipError';
+  }
+}
+
+const relationshipEndpointsInclude = {
+  from: { select: { deletedAt: true } },
+  to: { select: { deletedAt: true } },
+} satisfies Prisma.ObjectiveRelationshipInclude;
+
+// Links with a trashed end are hidden and come back on restore, so they must not change meanwhile
+async function findEditableRelationship(tx: Prisma.TransactionClient, id: string) {
+  const relationship = await tx.objectiveRelationship.findUnique({
+    where: { id },
+    include: relationshipEndpointsInclude,
+  });
+  if (!relationship) throw new RelationshipError('Relationship not found', 404);
+  if (relationship.from.deletedAt || relationship.to.deletedAt) {
+    throw new RelationshipError('Relationship is hidden because one of its objectives is in the trash', 409);
+  }
   return relationship;
 }
 
-export async function deleteObjectiveById(id: string): Promise<void> {
+export async function createObjectiveRelationshipRecord(input: {
+  fromId: string;
+  toId: string;
+  type: ObjectiveRelationshipType;
+  rationale?: string | null;
+  weight?: number | null;
+}, audit: AuditContext = SYSTEM_AUDIT): Promise<{ fromId: string; relationship: ObjectiveRelationDTO }> {
+  if (input.fromId === input.toId) {
+    throw new RelationshipError('Relationships must connect two different objectives', 400);
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const endpoints = await tx.objective.count({
+      where: { id: { in: [input.fromId, input.toId] }, ...visibleObjectiveFilter },
+    });
+    if (endpoints !== 2) throw new RelationshipError('Objective not found', 404);
+
+    const relationship = await tx.objectiveRelationship.create({
+      data: {
+        fromId: input.fromId,
+        toId: input.toId,
+        type: input.type,
+        rationale: input.rationale ?? null,
+        weight: input.weight ?? null,
+      },
+      include: {
+        to: {
+          select: {
+            id: true,
+            text: true,
+            status: true,
+            priority: true,
+          },
+        },
+      },
+    });
+    await recordAuditEvents(tx, audit, [relationshipAuditEvent(null, relationship)]);
+
+    return {
+      fromId: relationship.fromId,
+      relationship: mapRelationshipToDTO(relationship),
+    };
+  });
+}
+
+export async function updateObjectiveRelationshipRecord(
+  id: string,
+  updates: {
+    toId?: string;
+    type?: ObjectiveRelationshipType;
+    rationale?: string | null;
+    weight?: number | null;
+  },
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<{ fromId: string; relationship: ObjectiveRelationDTO }> {
+  return await prisma.$transaction(async (tx) => {
+    const before = await findEditableRelationship(tx, id);
+    if (updates.toId && updates.toId !== before.toId) {
+      if (updates.toId === before.fromId) {
+        throw new RelationshipError('Relationships must connect two different objectives', 400);
+      }
+      const target = await tx.objective.findFirst({
+        where: { id: updates.toId, ...visibleObjectiveFilter },
+        select: { id: true },
+      });
+      if (!target) throw new RelationshipError('Target objective not found', 404);
+    }
+
+    const relationship = await tx.objectiveRelationship.update({
+      where: { id },
+      data: {
+        toId: updates.toId,
+        type: updates.type,
+        rationale: updates.rationale === undefined ? undefined : updates.rationale,
+        weight: updates.weight === undefined ? undefined : updates.weight,
+      },
+      include: {
+        to: {
+          select: {
+            id: true,
+            text: true,
+            status: true,
+            priority: true,
+          },
+        },
+      },
+    });
+    await recordAuditEvents(tx, audit, [relationshipAuditEvent(before, relationship)]);
+
+    return {
+      fromId: relationship.fromId,
+      relationship: mapRelationshipToDTO(relationship),
+    };
+  });
+}
+
+export async function deleteObjectiveRelationshipRecord(
+  id: string,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<{ id: string; fromId: string }> {
+  return await prisma.$transaction(async (tx) => {
+    await findEditableRelationship(tx, id);
+    const relationship = await tx.objectiveRelationship.delete({ where: { id } });
+    await recordAuditEvents(tx, audit, [relationshipAuditEvent(relationship, null)]);
+
+    return { id: relationship.id, fromId: relationship.fromId };
+  });
+}
+
+/** Moves an objective to the trash. Its relationships stay in place but are hidden along with it. */
+export async function trashObjective(id: string, audit: AuditContext = SYSTEM_AUDIT): Promise<{ id: string; deletedAt: Date }> {
+  const deletedAt = new Date();
+
+  return await prisma.$transaction(async (tx) => {
+    const before = await tx.objective.findUnique({ where: { id } });
+    const objective = await tx.objective.update({
+      where: { id, ...liveObjectiveFilter },
+      data: { deletedAt },
+    });
+    await recordAuditEvents(tx, audit, [objectiveAuditEvent(before, objective)]);
+
+    return { id: objective.id, deletedAt };
+  });
+}
+
+/**
+ * Takes an objective out of the trash together with its relationships. A
+ * parent that would now close a loop (the hierarchy changed while it was in
+ * the trash) is dropped so the objective returns at the top level. Returns
+ * null when the objective is not in the trash.
+ */
+export async function restoreObjective(id: string, audit: AuditContext = SYSTEM_AUDIT): Promise<ObjectiveDTO | null> {
+  return await prisma.$transaction(async (tx) => {
+    const before = await tx.objective.findFirst({ where: { id, deletedAt: { not: null } } });
+    if (!before) return null;
+
+    let cursor = before.parentId;
+    const visited = new Set<string>();
+    while (cursor && cursor !== id && !visited.has(cursor)) {
+      visited.add(cursor);
+      const row: { parentId: string | null } | null = await tx.objective.findUnique({
+        where: { id: cursor },
+        select: { parentId: true },
+      });
+      cursor = row?.parentId ?? null;
+    }
+
+    const restored = await tx.objective.update({
+      where: { id },
+      data: { deletedAt: null, mergedIntoId: null, ...(cursor === id ? { parentId: null } : {}) },
+      include: objectiveWithLinksInclude,
+    });
+    await recordAuditEvents(tx, audit, [objectiveAuditEvent(before, restored)]);
+
+    return mapObjectiveToDTO(restored);
+  });
+}
+
+export interface TrashedObjectiveDTO {
+  id: string;
+  text: string;
+  status: ObjectiveStatus;
+  level: ObjectiveLevel | null;
+  entryId: string | null;
+  deletedAt: Date;
+  relationshipCount: number;
+  mergedInto: { id: string; text: string } | null;
+}
+
+export async function listTrashedObjectives(limit = 100): Promise<TrashedObjectiveDTO[]> {
+  const objectives = await prisma.objective.findMany({
+    where: { deletedAt: { not: null } },
+    orderBy: { deletedAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      text: true,
+      status: true,
+      level: true,
+      entryId: true,
+      deletedAt: true,
+      mergedInto: { select: { id: true, text: true } },
+      _count: { select: { outgoingLinks: true, incomingLinks: true } },
+    },
+  });
+
+  return objectives.flatMap(({ _count, deletedAt, ...objective }) =>
+    deletedAt ? [{ ...objective, deletedAt, relationshipCount: _count.outgoingLinks + _count.incomingLinks }] : [],
+  );
+}
+
+/** Permanently removes a trashed objective and its relationships. */
+export async function purgeObjective(id: string, audit: AuditContext = SYSTEM_AUDIT): Promise<void> {
   await prisma.$transaction(async (tx) => {
-    await tx.objectiveRelationship.deleteMany({
+    const links = await tx.objectiveRelationship.findMany({
       where: {
         OR: [{ fromId: id }, { toId: id }],
       },
     });
+    await tx.objectiveRelationship.deleteMany({
+      where: { id: { in: links.map((link) => link.id) } },
+    });
+
+    // Children are detached by the foreign key; record that they moved to the top level
+    const children = await tx.objective.findMany({ where: { parentId: id } });
+    const objective = await tx.objective.delete({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    await recordAuditEvents(tx, audit, [
+      ...links.map((link) => relationshipAuditEvent(link, null)),
+      ...children.map((child) => objectiveAuditEvent(child, { ...child, parentId: null })),
+      objectiveAuditEvent(objective, null),
+    ]);
+  });
+}
+
+export interface ObjectiveMergeDTO {
+  id: string;
+  survivorId: string;
+  mergedIds: string[];
+  mergedSnapshots: Prisma.JsonValue;
+  relationshipsRewired: number;
+  relationshipsDropped: number;
+  createdAt: Date;
+}
 
-    await tx.objective.delete({
+/**
+ * Folds `mergedIds` into the surviving objective: tags and metrics are unioned,
+ * the most detailed context wins, empty fields are filled from the merged
+ * records and every relationship is re-pointed at the survivor. Links that
+ * would become self-references or collide with an existing
+ * (from, to, type) link are dropped. The merged objectives move to the trash
+ * pointing at the survivor. Returns null when any objective is missing.
+ */
+export async function mergeObjectives(
+  survivorId: string,
+  mergedIds: string[],
+  audit: AuditContext = { ...SYSTEM_AUDIT, reason: 'merge' },
+): Promise<{ objective: ObjectiveDTO; merge: ObjectiveMergeDTO } | null> {
+  return await prisma.$transaction(async (tx) => {
+    const records = await tx.objective.findMany({
+      where: { id: { in: [survivorId, ...mergedIds] }, ...liveObjectiveFilter },
+      include: { outgoingLinks: true, incomingLinks: true },
+    });
+    const survivor = records.find((record) => record.id === survivorId);
+    const merged = records.filter((record) => record.id !== survivorId);
+    if (!survivor || merged.length !== mergedIds.length) return null;
+
+    const mergedIdSet = new Set(mergedIds);
+    const repoint = (id: string) => (mergedIdSet.has(id) ? survivorId : id);
+    const links = new Map(
+      merged.flatMap((record) => [...record.outgoingLinks, ...record.incomingLinks]).map((link) => [link.id, link]),
+    );
+
+    const events: Array<AuditEventInput | null> = [];
+    let rewired = 0;
+    let dropped = 0;
+    for (const link of links.values()) {
+      const fromId = repoint(link.fromId);
+      const toId = repoint(link.toId);
+      const clash = fromId === toId
+        ? null
+        : await tx.objectiveRelationship.findUnique({
+            where: { fromId_toId_type: { fromId, toId, type: link.type } },
+            select: { id: true },
+          });
+
+      if (fromId === toId || (clash && clash.id !== link.id)) {
+        await tx.objectiveRelationship.delete({ where: { id: link.id } });
+        events.push(relationshipAuditEvent(link, null));
+        dropped += 1;
+        continue;
+      }
+
+      const updatedLink = await tx.objectiveRelationship.update({ where: { id: link.id }, data: { fromId, toId } });
+      events.push(relationshipAuditEvent(link, updatedLink));
+      rewired += 1;
+    }
+
+    // Children of merged objectives roll up to the survivor instead of being orphaned
+    const children = await tx.objective.findMany({
+      where: { parentId: { in: mergedIds }, id: { notIn: [survivorId, ...mergedIds] } },
+    });
+    await tx.objective.updateMany({
+      where: { parentId: { in: mergedIds }, id: { not: survivorId } },
+      data: { parentId: survivorId },
+    });
+    events.push(...children.map((child) => objectiveAuditEvent(child, { ...child, parentId: survivorId })));
+    await tx.keyResult.updateMany({ where: { objectiveId: { in: mergedIds } }, data: { objectiveId: survivorId } });
+    const deletedAt = new Date();
+    await tx.objective.updateMany({
+      where: { id: { in: mergedIds } },
+      data: { deletedAt, mergedIntoId: survivorId },
+    });
+
+    // A survivor nested under one of the merged objectives moves up to that objective's parent
+    let survivorParentId: string | null | undefined = undefined;
+    if (survivor.parentId && mergedIdSet.has(survivor.parentId)) {
+      const inherited = merged.find((record) => record.id === survivor.parentId)?.parentId ?? null;
+      survivorParentId = inherited && inherited !== survivorId && !mergedIdSet.has(inherited) ? inherited : null;
+    }
+
+    const all = [survivor, ...merged];
+    const firstFilled = <T>(pick: (record: Objective) => T | null) =>
+      all.map(pick).find((value) => value !== null && value !== '') ?? null;
+    const context = all
+      .map((record) => record.context?.trim() ?? '')
+      .reduce((best, candidate) => (candidate.length > best.length ? candidate : best), '');
+    const metrics = Array.from(new Set(all.flatMap((record) => record.metrics)));
+
+    const updated = await tx.objective.update({
+      where: { id: survivorId },
+      // Only pass context and metrics when they change so the survivor keeps its embedding otherwise
+      data: toObjectiveUpdateData({
+        context: context && context !== survivor.context ? context : undefined,
+        metrics: metrics.length !== survivor.metrics.length ? metrics : undefined,
+        tags: Array.from(new Set(all.flatMap((record) => record.tags))),
+        category: firstFilled((record) => record.category),
+        timeframe: firstFilled((record) => record.timeframe),
+        owner: firstFilled((record) => record.owner),
+        level: firstFilled((record) => record.level),
+        parentId: survivorParentId,
+      }),
+      include: objectiveWithLinksInclude,
+    });
+    events.push(
+      objectiveAuditEvent(survivor, updated),
+      ...merged.map((record) => objectiveAuditEvent(record, { ...record, deletedAt, mergedIntoId: survivorId })),
+    );
+    await recordAuditEvents(tx, audit, events);
+
+    const merge = await tx.objectiveMerge.create({
+      data: {
+        survivorId,
+        mergedIds,
+        mergedSnapshots: merged.map(({ embedding: _embedding, outgoingLinks, incomingLinks, ...record }) => ({
+          ...record,
+          createdAt: record.createdAt.toISOString(),
+          updatedAt: record.updatedAt.toISOString(),
+          relationships: [...outgoingLinks, ...incomingLinks].map((link) => ({
+            fromId: link.fromId,
+            toId: link.toId,
+            type: link.type,
+            rationale: link.rationale,
+            weight: link.weight,
+          })),
+        })),
+        relationshipsRewired: rewired,
+        relationshipsDropped: dropped,
+      },
+    });
+
+    return { objective: mapObjectiveToDTO(updated), merge };
+  });
+}
+
+export async function listObjectiveMerges(objectiveId?: string, limit = 50): Promise<ObjectiveMergeDTO[]> {
+  return await prisma.objectiveMerge.findMany({
+    where: objectiveId ? { OR: [{ survivorId: objectiveId }, { mergedIds: { has: objectiveId } }] } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+export interface ObjectiveSplitPart {
+  text: string;
+  context?: string | null;
+  metrics?: string[];
+}
+
+export interface ObjectiveSplitDTO {
+  id: string;
+  originalId: string;
+  partIds: string[];
+  originalSnapshot: Prisma.JsonValue;
+  createdAt: Date;
+}
+
+/**
+ * Replaces an objective with several parts. Each part inherits the original's
+ * entry, source and review fields. `assignments` maps a relationship id to the
+ * indexes of the parts that should carry it; unlisted relationships are copied
+ * to every part and an empty list drops the link. Returns null when the
+ * objective does not exist.
+ */
+export async function splitObjective(
+  id: string,
+  parts: ObjectiveSplitPart[],
+  assignments: Record<string, number[]> = {},
+  audit: AuditContext = { ...SYSTEM_AUDIT, reason: 'split' },
+): Promise<{ objectives: ObjectiveDTO[]; split: ObjectiveSplitDTO } | null> {
+  return await prisma.$transaction(async (tx) => {
+    const original = await tx.objective.findFirst({
+      where: { id, ...liveObjectiveFilter },
+      include: { outgoingLinks: true, incomingLinks: true },
+    });
+    if (!original) return null;
+
+    const created: Objective[] = [];
+    for (const part of parts) {
+      created.push(
+        await tx.objective.create({
+          data: {
+            text: part.text,
+            context: part.context === undefined ? original.context : part.context,
+            category: original.category,
+            timeframe: original.timeframe,
+            status: original.status,
+            priority: original.priority,
+            reviewState: original.reviewState,
+            confidence: original.confidence,
+            owner: original.owner,
+            metrics: part.metrics ?? original.metrics,
+            tags: original.tags,
+            sourceLabel: original.sourceLabel,
+            sourceExcerpt: original.sourceExcerpt,
+            sourceStart: original.sourceStart,
+            sourceEnd: original.sourceEnd,
+            level: original.level,
+            parentId: original.parentId,
+            entryId: original.entryId,
+          },
+        }),
+      );
+    }
+
+    // Children and key results of the original stay with the first part
+    const children = await tx.objective.findMany({ where: { parentId: id } });
+    await tx.objective.updateMany({ where: { parentId: id }, data: { parentId: created[0].id } });
+    await tx.keyResult.updateMany({ where: { objectiveId: id }, data: { objectiveId: created[0].id } });
+
+    const links = [...original.outgoingLinks, ...original.incomingLinks];
+    const copies = links.flatMap((link) =>
+      (assignments[link.id] ?? created.map((_, index) => index))
+        .filter((index) => created[index])
+        .map((index) => ({
+          fromId: link.fromId === id ? created[index].id : link.fromId,
+          toId: link.toId === id ? created[index].id : link.toId,
+          type: link.type,
+          rationale: link.rationale,
+          weight: link.weight,
+        })),
+    );
+
+    await tx.objectiveRelationship.deleteMany({ where: { OR: [{ fromId: id }, { toId: id }] } });
+    if (copies.length > 0) {
+      await tx.objectiveRelationship.createMany({ data: copies, skipDuplicates: true });
+    }
+    const trashed = await tx.objective.update({ where: { id }, data: { deletedAt: new Date() } });
+
+    const createdIds = created.map((objective) => objective.id);
+    const copiedLinks = await tx.objectiveRelationship.findMany({
+      where: { OR: [{ fromId: { in: createdIds } }, { toId: { in: createdIds } }] },
+    });
+    await recordAuditEvents(tx, audit, [
+      ...created.map((objective) => objectiveAuditEvent(null, objective)),
+      ...children.map((child) => objectiveAuditEvent(child, { ...child, parentId: created[0].id })),
+      ...links.map((link) => relationshipAuditEvent(link, null)),
+      ...copiedLinks.map((link) => relationshipAuditEvent(null, link)),
+      objectiveAuditEvent(original, trashed),
+    ]);
+
+    const { embedding: _embedding, outgoingLinks, incomingLinks, ...record } = original;
+    const split = await tx.objectiveSplit.create({
+      data: {
+        originalId: id,
+        partIds: createdIds,
+        originalSnapshot: {
+          ...record,
+          createdAt: record.createdAt.toISOString(),
+          updatedAt: record.updatedAt.toISOString(),
+          relationships: [...outgoingLinks, ...incomingLinks].map((link) => ({
+            fromId: link.fromId,
+            toId: link.toId,
+            type: link.type,
+            rationale: link.rationale,
+            weight: link.weight,
+          })),
+        },
+      },
+    });
+
+    const objectives = await tx.objective.findMany({
+      where: { id: { in: split.partIds } },
+      include: objectiveWithLinksInclude,
+    });
+    objectives.sort((a, b) => split.partIds.indexOf(a.id) - split.partIds.indexOf(b.id));
+
+    return { objectives: objectives.map(mapObjectiveToDTO), split };
+  });
+}
+
+export interface AuditContext {
+  actor: string;
+  reason?: string;
+}
+
+// Writes made by background work (extraction jobs, maintenance) rather than a person
+export const SYSTEM_AUDIT: AuditContext = { actor: 'system' };
+
+export type AuditEventDTO = AuditEvent;
+
+type AuditEventInput = Omit<Prisma.AuditEventCreateManyInput, 'actor' | 'reason'>;
+type AuditSnapshot = Record<string, Prisma.InputJsonValue | null>;
+
+// Derived or bookkeeping columns that would only add noise to the log
+const UNAUDITED_FIELDS = new Set(['embedding', 'embeddingModel', 'updatedAt']);
+
+const AUDITED_FIELDS: Record<AuditEntityType, string[]> = {
+  [AuditEntityType.OBJECTIVE]: Object.values(Prisma.ObjectiveScalarFieldEnum),
+  [AuditEntityType.RELATIONSHIP]: Object.values(Prisma.ObjectiveRelationshipScalarFieldEnum),
+  [AuditEntityType.KEY_RESULT]: Object.values(Prisma.KeyResultScalarFieldEnum),
+};
+
+// Reads columns only, so records loaded with relations snapshot the same way as bare rows
+function toAuditSnapshot(entityType: AuditEntityType, record: object): AuditSnapshot {
+  const values = record as Record<string, unknown>;
+  const snapshot: AuditSnapshot = {};
+  for (const field of AUDITED_FIELDS[entityType]) {
+    if (UNAUDITED_FIELDS.has(field)) continue;
+    const value = values[field];
+    snapshot[field] = value instanceof Date ? value.toISOString() : ((value ?? null) as Prisma.InputJsonValue | null);
+  }
+  return snapshot;
+}
+
+function buildAuditEvent(
+  entityType: AuditEntityType,
+  entityId: string,
+  objectiveIds: string[],
+  before: object | null,
+  after: object | null,
+): AuditEventInput | null {
+  if (!before || !after) {
+    return {
+      entityType,
+      entityId,
+      objectiveIds,
+      action: before ? AuditAction.DELETE : AuditAction.CREATE,
+      before: before ? toAuditSnapshot(entityType, before) : undefined,
+      after: after ? toAuditSnapshot(entityType, after) : undefined,
+    };
+  }
+
+  const previous = toAuditSnapshot(entityType, before);
+  const next = toAuditSnapshot(entityType, after);
+  const changed = Object.keys(next).filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+  if (changed.length === 0) return null;
+
+  return {
+    entityType,
+    entityId,
+    objectiveIds,
+    action: AuditAction.UPDATE,
+    before: Object.fromEntries(changed.map((key) => [key, previous[key] ?? null])),
+    after: Object.fromEntries(changed.map((key) => [key, next[key]])),
+  };
+}
+
+function objectiveAuditEvent(before: Objective | null, after: Objective | null): AuditEventInput | null {
+  const id = after?.id ?? before?.id;
+  return id ? buildAuditEvent(AuditEntityType.OBJECTIVE, id, [id], before, after) : null;
+}
+
+function relationshipAuditEvent(
+  before: ObjectiveRelationship | null,
+  after: ObjectiveRelationship | null,
+): AuditEventInput | null {
+  const id = after?.id ?? before?.id;
+  const objectiveIds = Array.from(new Set([before, after].flatMap((link) => (link ? [link.fromId, link.toId] : []))));
+  return id ? buildAuditEvent(AuditEntityType.RELATIONSHIP, id, objectiveIds, before, after) : null;
+}
+
+function keyResultAuditEvent(before: KeyResult | null, after: KeyResult | null): AuditEventInput | null {
+  const keyResult = after ?? before;
+  return keyResult
+    ? buildAuditEvent(AuditEntityType.KEY_RESULT, keyResult.id, [keyResult.objectiveId], before, after)
+    : null;
+}
+
+async function recordAuditEvents(
+  tx: Prisma.TransactionClient,
+  audit: AuditContext,
+  events: Array<AuditEventInput | null>,
+): Promise<void> {
+  const data = events.flatMap((event) =>
+    event ? [{ ...event, actor: audit.actor, reason: audit.reason ?? null }] : [],
+  );
+  if (data.length > 0) {
+    await tx.auditEvent.createMany({ data });
+  }
+}
+
+/** Events touching an objective or any of its relationships, newest first. Deleted objectives keep their history. */
+export async function listObjectiveHistory(objectiveId: string, limit = 100): Promise<AuditEventDTO[]> {
+  return await prisma.auditEvent.findMany({
+    where: { objectiveIds: { has: objectiveId } },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+export interface KeyResultDTO {
+  id: string;
+  objectiveId: string;
+  metric: string;
+  unit: string | null;
+  baseline: number;
+  target: number;
+  currentValue: number;
+  dueDate: Date | null;
+  progress: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface KeyResultCheckInDTO {
+  id: string;
+  keyResultId: string;
+  value: number;
+  note: string | null;
+  recordedAt: Date;
+  createdAt: Date;
+}
+
+export interface KeyResultInput {
+  metric: string;
+  unit?: string | null;
+  baseline?: number;
+  target: number;
+  currentValue?: number;
+  dueDate?: Date | null;
+}
+
+function mapKeyResultToDTO(keyResult: KeyResult): KeyResultDTO {
+  return {
+    id: keyResult.id,
+    objectiveId: keyResult.objectiveId,
+    metric: keyResult.metric,
+    unit: keyResult.unit,
+    baseline: keyResult.baseline,
+    target: keyResult.target,
+    currentValue: keyResult.currentValue,
+    dueDate: keyResult.dueDate,
+    progress: keyResultProgress(keyResult),
+    createdAt: keyResult.createdAt,
+    updatedAt: keyResult.updatedAt,
+  };
+}
+
+/** Returns null when the objective does not exist or is in the trash. */
+export async function listKeyResults(objectiveId: string): Promise<KeyResultDTO[] | null> {
+  const objective = await prisma.objective.findFirst({
+    where: { id: objectiveId, ...liveObjectiveFilter },
+    select: { keyResults: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  return objective ? objective.keyResults.map(mapKeyResultToDTO) : null;
+}
+
+// Key results of trashed objectives are frozen along with them
+const liveKeyResultFilter = { objective: liveObjectiveFilter };
+
+/** Returns null when the objective does not exist or is in the trash. */
+export async function createKeyResult(
+  objectiveId: string,
+  input: KeyResultInput,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<KeyResultDTO | null> {
+  return await prisma.$transaction(async (tx) => {
+    const objective = await tx.objective.findFirst({
+      where: { id: objectiveId, ...liveObjectiveFilter },
+      select: { id: true },
+    });
+    if (!objective) return null;
+
+    const baseline = input.baseline ?? 0;
+    const keyResult = await tx.keyResult.create({
+      data: {
+        objectiveId,
+        metric: input.metric,
+        unit: input.unit ?? null,
+        baseline,
+        target: input.target,
+        currentValue: input.currentValue ?? baseline,
+        dueDate: input.dueDate ?? null,
+      },
+    });
+    await recordAuditEvents(tx, audit, [keyResultAuditEvent(null, keyResult)]);
+
+    return mapKeyResultToDTO(keyResult);
+  });
+}
+
+/**
+ * The current value only moves through check-ins so the history stays complete.
+ * Returns null when the key result does not exist or its objective is in the trash.
+ */
+export async function updateKeyResult(
+  id: string,
+  updates: Partial<Omit<KeyResultInput, 'currentValue'>>,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<KeyResultDTO | null> {
+  return await prisma.$transaction(async (tx) => {
+    const before = await tx.keyResult.findFirst({ where: { id, ...liveKeyResultFilter } });
+    if (!before) return null;
+
+    const keyResult = await tx.keyResult.update({
       where: { id },
+      data: {
+        metric: updates.metric,
+        unit: updates.unit,
+        baseline: updates.baseline,
+        target: updates.target,
+        dueDate: updates.dueDate,
+      },
+    });
+    await recordAuditEvents(tx, audit, [keyResultAuditEvent(before, keyResult)]);
+
+    return mapKeyResultToDTO(keyResult);
+  });
+}
+
+/** Returns null when the key result does not exist or its objective is in the trash. */
+export async function deleteKeyResult(
+  id: string,
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<{ id: string; objectiveId: string } | null> {
+  return await prisma.$transaction(async (tx) => {
+    const before = await tx.keyResult.findFirst({ where: { id, ...liveKeyResultFilter } });
+    if (!before) return null;
+
+    await tx.keyResult.delete({ where: { id } });
+    await recordAuditEvents(tx, audit, [keyResultAuditEvent(before, null)]);
+
+    return { id: before.id, objectiveId: before.objectiveId };
+  });
+}
+
+/**
+ * Records a measurement. The key result's current value follows the most
+ * recent check-in, so a backdated check-in is kept in the history without
+ * overwriting a newer reading. Returns null when the key result does not
+ * exist or its objective is in the trash.
+ */
+export async function recordKeyResultCheckIn(
+  keyResultId: string,
+  input: { value: number; note?: string | null; recordedAt?: Date },
+  audit: AuditContext = SYSTEM_AUDIT,
+): Promise<{ keyResult: KeyResultDTO; checkIn: KeyResultCheckInDTO } | null> {
+  return await prisma.$transaction(async (tx) => {
+    const keyResult = await tx.keyResult.findFirst({ where: { id: keyResultId, ...liveKeyResultFilter } });
+    if (!keyResult) return null;
+
+    const recordedAt = input.recordedAt ?? new Date();
+    const newer = await tx.keyResultCheckIn.findFirst({
+      where: { keyResultId, recordedAt: { gt: recordedAt } },
+      select: { id: true },
     });
+
+    const checkIn = await tx.keyResultCheckIn.create({
+      data: { keyResultId, value: input.value, note: input.note ?? null, recordedAt },
+    });
+    const updated = newer
+      ? keyResult
+      : await tx.keyResult.update({ where: { id: keyResultId }, data: { currentValue: input.value } });
+    await recordAuditEvents(tx, audit, [keyResultAuditEvent(keyResult, updated)]);
+
+    return { keyResult: mapKeyResultToDTO(updated), checkIn };
+  });
+}
+
+/** Returns null when the key result does not exist or its objective is in the trash. */
+export async function listKeyResultCheckIns(keyResultId: string, limit = 100): Promise<KeyResultCheckInDTO[] | null> {
+  const keyResult = await prisma.keyResult.findFirst({
+    where: { id: keyResultId, ...liveKeyResultFilter },
+    select: { checkIns: { orderBy: { recordedAt: 'desc' }, take: limit } },
+  });
+
+  return keyResult ? keyResult.checkIns : null;
+}
+
+export interface ConversationSummaryDTO {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+}
+
+export interface ConversationMessageDTO {
+  id: string;
+  role: ConversationRole;
+  content: string;
+  metadata: Prisma.JsonValue | null;
+  createdAt: Date;
+}
+
+export interface ConversationDTO extends ConversationSummaryDTO {
+  messages: ConversationMessageDTO[];
+}
+
+export async function createConversation(title: string): Promise<ConversationSummaryDTO> {
+  const conversation = await prisma.conversation.create({
+    data: { title },
+  });
+
+  return { ...conversation, messageCount: 0 };
+}
+
+export async function listConversations(limit = 50, offset = 0): Promise<ConversationSummaryDTO[]> {
+  const conversations = await prisma.conversation.findMany({
+    orderBy: { updatedAt: 'desc' },
+    take: limit,
+    skip: offset,
+    include: { _count: { select: { messages: true } } },
+  });
+
+  return conversations.map(({ _count, ...conversation }) => ({
+    ...conversation,
+    messageCount: _count.messages,
+  }));
+}
+
+export async function getConversationById(id: string): Promise<ConversationDTO | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id },
+    include: {
+      messages: {
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          role: true,
+          content: true,
+          metadata: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  if (!conversation) return null;
+
+  return {
+    ...conversation,
+    messageCount: conversation.messages.length,
+  };
+}
+
+export async function appendConversationTurn(
+  conversationId: string,
+  turn: { question: string; answer: string; metadata: Prisma.InputJsonValue },
+): Promise<ConversationMessageDTO[]> {
+  return await prisma.$transaction(async (tx) => {
+    const question = await tx.conversationMessage.create({
+      data: {
+        conversationId,
+        role: ConversationRole.USER,
+        content: turn.question,
+      },
+    });
+
+    const answer = await tx.conversationMessage.create({
+      data: {
+        conversationId,
+        role: ConversationRole.ASSISTANT,
+        content: turn.answer,
+        metadata: turn.metadata,
+        // Keep the answer strictly after the question when both land in the same millisecond
+        createdAt: new Date(question.createdAt.getTime() + 1),
+      },
+    });
+
+    // Touch the conversation so listings surface the most recently active thread first
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date() },
+    });
+
+    return [question, answer].map(({ id, role, content, metadata, createdAt }) => ({
+      id,
+      role,
+      content,
+      metadata,
+      createdAt,
+    }));
+  });
+}
+
+export async function deleteConversationById(id: string): Promise<void> {
+  await prisma.conversation.delete({
+    where: { id },
+  });
+}
+
+export type ExtractionJobDTO = ExtractionJob;
+
+export const ACTIVE_EXTRACTION_JOB_STATUSES = [
+  ExtractionJobStatus.EXTRACTING,
+  ExtractionJobStatus.DEDUPLICATING,
+  ExtractionJobStatus.PERSISTING,
+];
+
+export async function createExtractionJob(input: {
+  kind?: ExtractionJobKind;
+  text: string;
+  title?: string | null;
+  sourceLabel?: string | null;
+  sourceFormat?: string | null;
+  tags?: string[];
+  entryId?: string | null;
+  model?: string | null;
+}): Promise<ExtractionJobDTO> {
+  return await prisma.extractionJob.create({
+    data: {
+      kind: input.kind ?? ExtractionJobKind.INTAKE,
+      entryId: input.entryId ?? null,
+      model: input.model ?? null,
+      text: input.text,
+      title: input.title ?? null,
+      sourceLabel: input.sourceLabel ?? null,
+      sourceFormat: input.sourceFormat ?? null,
+      tags: input.tags ?? [],
+    },
+  });
+}
+
+export async function getExtractionJobById(id: string): Promise<ExtractionJobDTO | null> {
+  return await prisma.extractionJob.findUnique({
+    where: { id },
+  });
+}
+
+export async function listExtractionJobs(
+  filter: { statuses?: ExtractionJobStatus[]; limit?: number } = {},
+): Promise<ExtractionJobDTO[]> {
+  return await prisma.extractionJob.findMany({
+    where: filter.statuses ? { status: { in: filter.statuses } } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit ?? 20,
+  });
+}
+
+/**
+ * Atomically moves the oldest queued job into EXTRACTING. `SKIP LOCKED` keeps
+ * concurrent workers (e.g. several backend processes) from claiming the same job.
+ */
+export async function claimNextExtractionJob(): Promise<ExtractionJobDTO | null> {
+  const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE extraction_jobs
+    SET status = 'EXTRACTING', attempts = attempts + 1, "startedAt" = NOW(), "updatedAt" = NOW()
+    WHERE id = (
+      SELECT id FROM extraction_jobs
+      WHERE status = 'QUEUED'
+      ORDER BY "createdAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `;
+
+  if (claimed.length === 0) return null;
+  return await getExtractionJobById(claimed[0].id);
+}
+
+export async function setExtractionJobStatus(id: string, status: ExtractionJobStatus): Promise<void> {
+  await prisma.extractionJob.update({
+    where: { id },
+    data: { status },
+  });
+}
+
+export async function completeExtractionJob(id: string, result: Prisma.InputJsonValue): Promise<void> {
+  await prisma.extractionJob.update({
+    where: { id },
+    data: {
+      status: ExtractionJobStatus.DONE,
+      result,
+      error: null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+export async function failExtractionJob(id: string, error: string): Promise<void> {
+  await prisma.extractionJob.update({
+    where: { id },
+    data: {
+      status: ExtractionJobStatus.FAILED,
+      error,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/** Heartbeat from the worker running a job, so other workers can tell it is still alive. */
+export async function touchExtractionJob(id: string): Promise<void> {
+  await prisma.extractionJob.updateMany({
+    where: { id, status: { in: ACTIVE_EXTRACTION_JOB_STATUSES } },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Jobs whose worker stopped sending heartbeats for longer than `leaseMs` (a
+ * crash or restart) are queued again until they run out of attempts, after
+ * which they are marked as failed. Claiming counts the attempt, so a job that
+ * keeps crashing its worker fails after `maxAttempts` runs.
+ */
+export async function recoverInterruptedExtractionJobs(
+  maxAttempts: number,
+  leaseMs: number,
+): Promise<{ requeued: number; failed: number }> {
+  const stale = { status: { in: ACTIVE_EXTRACTION_JOB_STATUSES }, updatedAt: { lt: new Date(Date.now() - leaseMs) } };
+
+  return await prisma.$transaction(async (tx) => {
+    const failed = await tx.extractionJob.updateMany({
+      where: { ...stale, attempts: { gte: maxAttempts } },
+      data: {
+        status: ExtractionJobStatus.FAILED,
+        error: 'Extraction was interrupted too many times',
+        finishedAt: new Date(),
+      },
+    });
+
+    const requeued = await tx.extractionJob.updateMany({
+      where: stale,
+      data: { status: ExtractionJobStatus.QUEUED },
+    });
+
+    return { requeued: requeued.count, failed: failed.count };
   });
 }
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+process.env.DATABASE_URL ??= 'postgresql://localhost/visium-test';
+process.env.LLM_PROVIDER = 'fixture';
+delete process.env.LLM_FIXTURE_PATH;
+
+// Configuration is read on import, so modules load after the fixture provider is selected
+const { extractObjectiveGraphInChunks } = await import('./chunkedExtraction.js');
+
+const options = { title: 'Planning notes', existingObjectives: [] };
+
+test('short input is extracted in a single pass', async () => {
+  const extraction = await extractObjectiveGraphInChunks(
+    'Grow enterprise revenue by thirty percent this year. Hire two senior platform engineers soon.',
+    options,
+  );
+
+  assert.deepEqual(
+    extraction.objectives.map((objective) => [objective.key, objective.statement]),
+    [
+      ['OBJ_A', 'Grow enterprise revenue by thirty percent this year.'],
+      ['OBJ_B', 'Hire two senior platform engineers soon.'],
+    ],
+  );
+});
+
+test('long input is extracted per chunk with unique keys and merged duplicates', async () => {
+  const shared = 'Reduce customer churn below five percent.';
+  const text = [
+    `## Growth\n\n${shared} Launch the partner program in Europe next quarter.`,
+    `## Retention\n\n${shared} Ship the new onboarding checklist for admins.`,
+  ].join('\n\n');
+
+  const extraction = await extractObjectiveGraphInChunks(text, { ...options, maxChunkChars: 120 });
+  const statements = extraction.objectives.map((objective) => objective.statement);
+  const keys = extraction.objectives.map((objective) => objective.key);
+
+  assert.equal(statements.filter((statement) => statement === shared).length, 1);
+  assert.ok(statements.includes('Launch the partner program in Europe next quarter.'));
+  assert.ok(statements.includes('Ship the new onboarding checklist for admins.'));
+  assert.equal(new Set(keys).size, keys.length);
+  assert.ok(keys.every((key) => /^C\d+_OBJ_[A-Z]$/.test(key)));
+});
@@ -0,0 +1,133 @@
+import type { ObjectiveSummaryForPrompt } from '../database.js';
+import {
+  extractObjectiveGraph,
+  type AgentGraphExtraction,
+  type AgentObjective,
+  type AgentRelationship,
+  type TranscriptPromptContext,
+} from '../llm/agent.js';
+import { config } from '../config.js';
+import { splitIntoChunks, type TextChunk } from './chunking.js';
+import { normalize } from './normalization.js';
+
+interface ChunkedExtractionOptions {
+  title: string | null;
+  existingObjectives: ObjectiveSummaryForPrompt[];
+  transcript?: TranscriptPromptContext | null;
+  model?: string | null;
+  maxChunkChars?: number;
+}
+
+/**
+ * Extracts objectives from text of any length. Short input goes to the agent
+ * in one prompt; long input is chunked, extracted chunk by chunk and merged so
+ * that `prepareObjectiveDrafts` sees a single extraction with unique keys.
+ */
+export async function extractObjectiveGraphInChunks(
+  text: string,
+  { title, existingObjectives, transcript = null, model = null, maxChunkChars = config.EXTRACTION_CHUNK_CHARS }: ChunkedExtractionOptions,
+): Promise<AgentGraphExtraction> {
+  const chunks = splitIntoChunks(text, maxChunkChars);
+  if (chunks.length === 1) {
+    return await extractObjectiveGraph(text, { title, existingObjectives, transcript, model });
+  }
+
+  console.log(`✂️ [CHUNKING] Splitting ${text.length} characters into ${chunks.length} chunks`);
+
+  const extractions: AgentGraphExtraction[] = [];
+  for (const chunk of chunks) {
+    console.log(`✂️ [CHUNKING] Extracting chunk ${chunk.index + 1}/${chunks.length} (${chunk.text.length} characters)`);
+    const extraction = await extractObjectiveGraph(buildChunkInput(chunk), { title, existingObjectives, transcript, model });
+    extractions.push(namespaceKeys(extraction, chunk.index));
+  }
+
+  return mergeExtractions(extractions, title);
+}
+
+function buildChunkInput(chunk: TextChunk): string {
+  // Repeat the section heading when the chunk starts mid-section
+  if (chunk.heading && !chunk.text.trimStart().startsWith('#')) {
+    return `## ${chunk.heading} (continued)\n\n${chunk.text}`;
+  }
+  return chunk.text;
+}
+
+/** Prefixes keys with the chunk index so keys like OBJ_A cannot collide across chunks. */
+function namespaceKeys(extraction: AgentGraphExtraction, chunkIndex: number): AgentGraphExtraction {
+  const keyMap = new Map<string, string>();
+  for (const objective of extraction.objectives) {
+    keyMap.set(objective.key, `C${chunkIndex + 1}_${objective.key}`);
+  }
+
+  const remap = (reference: string) => keyMap.get(reference) ?? reference;
+  const objectives = extraction.objectives.map((objective) => ({
+    ...objective,
+    key: remap(objective.key),
+    parentKey: objective.parentKey ? remap(objective.parentKey) : objective.parentKey,
+  }));
+  const relationships = extraction.relationships.map((relationship) => ({
+    ...relationship,
+    from: remap(relationship.from),
+    to: remap(relationship.to),
+  }));
+
+  return { ...extraction, objectives, relationships };
+}
+
+/**
+ * Merges per-chunk extractions. Objectives with the same normalized statement
+ * collapse into the first occurrence, and every relationship pointing at a
+ * dropped duplicate is rewired to the surviving key.
+ */
+function mergeExtractions(extractions: AgentGraphExtraction[], fallbackTitle: string | null): AgentGraphExtraction {
+  const objectives: AgentObjective[] = [];
+  const keyByStatement = new Map<string, string>();
+  const keyRemap = new Map<string, string>();
+
+  for (const extraction of extractions) {
+    for (const objective of extraction.objectives) {
+      const statement = normalize(objective.statement ?? '').normalized;
+      const existingKey = keyByStatement.get(statement);
+
+      if (statement && existingKey) {
+        keyRemap.set(objective.key, existingKey);
+        continue;
+      }
+
+      if (statement) keyByStatement.set(statement, objective.key);
+      objectives.push(objective);
+    }
+  }
+
+  for (const objective of objectives) {
+    if (objective.parentKey) objective.parentKey = keyRemap.get(objective.parentKey) ?? objective.parentKey;
+  }
+
+  const relationships: AgentRelationship[] = [];
+  const seenRelationships = new Set<string>();
+
+  for (const extraction of extractions) {
+    for (const relationship of extraction.relationships) {
+      const from = keyRemap.get(relationship.from) ?? relationship.from;
+      const to = keyRemap.get(relationship.to) ?? relationship.to;
+      if (from === to) continue;
+
+      const signature = `${from}|${to}|${String(relationship.type).toUpperCase()}`;
+      if (seenRelationships.has(signature)) continue;
+      seenRelationships.add(signature);
+
+      relationships.push({ ...relationship, from, to });
+    }
+  }
+
+  console.log(
+    `✂️ [CHUNKING] Merged ${objectives.length} objectives (${keyRemap.size} cross-chunk duplicates) and ${relationships.length} relationships`,
+  );
+
+  return {
+    mode: 'graph-extraction',
+    title: extractions.find((extraction) => extraction.title)?.title ?? fallbackTitle,
+    objectives,
+    relationships,
+  };
+}
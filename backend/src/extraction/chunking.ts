@@ -0,0 +1,126 @@
+export interface TextChunk {
+  index: number;
+  /** Closest markdown heading above the chunk, repeated in the prompt for context */
+  heading: string | null;
+  text: string;
+  /** Character offset of the chunk within the original text */
+  start: number;
+}
+
+interface TextBlock {
+  heading: string | null;
+  text: string;
+  start: number;
+}
+
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+const PARAGRAPH_BREAK_PATTERN = /\n[ \t]*\n/g;
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+|\n|$)\s*/g;
+
+/**
+ * Splits long input into prompt-sized chunks. Boundaries prefer headings, then
+ * paragraphs, then sentences; only a single oversize sentence is cut mid-text.
+ */
+export function splitIntoChunks(text: string, maxChars: number): TextChunk[] {
+  if (text.length <= maxChars) {
+    return [{ index: 0, heading: null, text, start: 0 }];
+  }
+
+  const blocks = splitIntoBlocks(text).flatMap((block) =>
+    block.text.length > maxChars ? splitOversizeBlock(block, maxChars) : [block],
+  );
+
+  const chunks: TextChunk[] = [];
+  let current: TextBlock[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const first = current[0];
+    const last = current[current.length - 1];
+    chunks.push({
+      index: chunks.length,
+      heading: first.heading,
+      text: text.slice(first.start, last.start + last.text.length),
+      start: first.start,
+    });
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const block of blocks) {
+    const startsSection = HEADING_PATTERN.test(block.text.split('\n')[0]);
+    const projected = currentLength === 0 ? block.text.length : block.start + block.text.length - current[0].start;
+
+    // A new heading starts a fresh chunk once the current one is reasonably full
+    if (projected > maxChars || (startsSection && currentLength > maxChars / 2)) {
+      flush();
+    }
+
+    current.push(block);
+    currentLength = block.start + block.text.length - current[0].start;
+  }
+
+  flush();
+  return chunks;
+}
+
+function splitIntoBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let heading: string | null = null;
+  let cursor = 0;
+
+  const pushBlock = (start: number, end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+
+    const headingMatch = trimmed.split('\n')[0].match(HEADING_PATTERN);
+    if (headingMatch) heading = headingMatch[1];
+    blocks.push({ heading, text: trimmed, start: start + leading });
+  };
+
+  for (const match of text.matchAll(PARAGRAPH_BREAK_PATTERN)) {
+    const index = match.index ?? 0;
+    pushBlock(cursor, index);
+    cursor = index + match[0].length;
+  }
+  pushBlock(cursor, text.length);
+
+  return blocks;
+}
+
+function splitOversizeBlock(block: TextBlock, maxChars: number): TextBlock[] {
+  const pieces: TextBlock[] = [];
+  let pieceStart = -1;
+  let pieceEnd = -1;
+
+  const flush = () => {
+    if (pieceStart < 0) return;
+    const slice = block.text.slice(pieceStart, pieceEnd).trimEnd();
+    if (slice) pieces.push({ heading: block.heading, text: slice, start: block.start + pieceStart });
+    pieceStart = -1;
+  };
+
+  for (const match of block.text.matchAll(SENTENCE_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+
+    if (match[0].length > maxChars) {
+      flush();
+      for (let offset = start; offset < end; offset += maxChars) {
+        const slice = block.text.slice(offset, Math.min(offset + maxChars, end));
+        pieces.push({ heading: block.heading, text: slice, start: block.start + offset });
+      }
+      continue;
+    }
+
+    if (pieceStart >= 0 && end - pieceStart > maxChars) flush();
+    if (pieceStart < 0) pieceStart = start;
+    pieceEnd = end;
+  }
+
+  flush();
+  return pieces;
+}
@@ -0,0 +1,108 @@
+import path from 'node:path';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { formatTranscript, parseTranscript, type TranscriptFormat } from './transcripts.js';
+
+export type DocumentFormat = 'markdown' | 'text' | 'docx' | 'pdf' | TranscriptFormat;
+
+export interface UploadedDocument {
+  filename: string;
+  buffer: Buffer;
+}
+
+export interface DocumentText {
+  format: DocumentFormat;
+  text: string;
+}
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.docx': 'docx',
+  '.pdf': 'pdf',
+  '.vtt': 'vtt',
+  '.srt': 'srt',
+};
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+export class DocumentConversionError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: 415 | 422,
+  ) {
+    super(message);
+    this.name = 'DocumentConversionError';
+  }
+}
+
+export function detectDocumentFormat(filename: string): DocumentFormat | null {
+  return FORMAT_BY_EXTENSION[path.extname(filename).toLowerCase()] ?? null;
+}
+
+/** Converts an uploaded file into the plain text the extraction pipeline expects. */
+export async function convertDocumentToText({ filename, buffer }: UploadedDocument): Promise<DocumentText> {
+  const format = detectDocumentFormat(filename);
+  if (!format) {
+    throw new DocumentConversionError(
+      `Unsupported file type. Upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}`,
+      415,
+    );
+  }
+
+  const raw = await readText(format, buffer, filename);
+  const text = raw
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (!text) {
+    const hint = format === 'pdf' ? ' Scanned PDFs without a text layer are not supported.' : '';
+    throw new DocumentConversionError(`No readable text found in ${filename}.${hint}`, 422);
+  }
+
+  return { format, text };
+}
+
+async function readText(format: DocumentFormat, buffer: Buffer, filename: string): Promise<string> {
+  switch (format) {
+    case 'markdown':
+    case 'text':
+      return buffer.toString('utf8');
+    case 'docx': {
+      try {
+        const result = await mammoth.extractRawText({ buffer });
+        return result.value;
+      } catch (error) {
+        throw unreadableDocument(filename, 'Word document', error);
+      }
+    }
+    case 'vtt':
+    case 'srt':
+      // Stored as `[HH:MM:SS] Speaker: text` turns so excerpts can point back into the meeting
+      return formatTranscript(parseTranscript(buffer.toString('utf8')));
+    case 'pdf': {
+      const parser = new PDFParse({ data: buffer });
+      try {
+        // Omit the default "-- 1 of N --" page markers so they don't leak into excerpts
+        const result = await parser.getText({ pageJoiner: '' });
+        return result.text;
+      } catch (error) {
+        throw unreadableDocument(filename, 'PDF', error);
+      } finally {
+        await parser.destroy();
+      }
+    }
+  }
+}
+
+// Parser errors describe library internals, so the client gets a plain message and the log keeps the cause
+function unreadableDocument(filename: string, kind: string, cause: unknown): DocumentConversionError {
+  console.warn(`⚠️ [DOCUMENTS] Failed to read ${filename}:`, cause);
+  return new DocumentConversionError(
+    `Could not read ${filename}. The file may be corrupt, password-protected or not a valid ${kind}.`,
+    422,
+  );
+}
@@ -0,0 +1,187 @@
+import { ObjectiveLevel, ObjectivePriority, ObjectiveRelationshipType, ObjectiveStatus } from '@prisma/client';
+
+export interface NormalizedText {
+  original: string;
+  normalized: string;
+}
+
+export function normalize(statement: string): NormalizedText {
+  const original = statement.trim();
+  const normalized = original.toLowerCase().replace(/\s+/g, ' ');
+  return { original, normalized };
+}
+
+// Model output is normalised leniently: anything unrecognised falls back to the default
+export function parseStatus(value?: string | null): ObjectiveStatus | undefined {
+  if (!value) return undefined;
+  return matchStatus(value) ?? ObjectiveStatus.PROPOSED;
+}
+
+/** Maps a status or one of its aliases to the enum, or null when it is not recognised. */
+export function matchStatus(value: string): ObjectiveStatus | null {
+  const normalized = value.trim().toUpperCase();
+  if (normalized in ObjectiveStatus) {
+    return ObjectiveStatus[normalized as keyof typeof ObjectiveStatus];
+  }
+
+  switch (normalized) {
+    case 'IN PROGRESS':
+    case 'IN_PROGRESS':
+    case 'ACTIVE':
+      return ObjectiveStatus.ACTIVE;
+    case 'PLANNED':
+    case 'PLANNING':
+      return ObjectiveStatus.PLANNED;
+    case 'BLOCKED':
+    case 'ON HOLD':
+    case 'ON_HOLD':
+      return ObjectiveStatus.BLOCKED;
+    case 'DONE':
+    case 'COMPLETE':
+    case 'COMPLETED':
+      return ObjectiveStatus.COMPLETE;
+    case 'IDEA':
+    case 'PROPOSED':
+      return ObjectiveStatus.PROPOSED;
+    default:
+      return null;
+  }
+}
+
+export function parsePriority(value?: string | null): ObjectivePriority | undefined {
+  if (!value) return undefined;
+  return matchPriority(value) ?? ObjectivePriority.MEDIUM;
+}
+
+/** Maps a priority or one of its aliases to the enum, or null when it is not recognised. */
+export function matchPriority(value: string): ObjectivePriority | null {
+  const normalized = value.trim().toUpperCase();
+  if (normalized in ObjectivePriority) {
+    return ObjectivePriority[normalized as keyof typeof ObjectivePriority];
+  }
+
+  switch (normalized) {
+    case 'P0':
+    case 'CRITICAL':
+    case 'HIGHEST':
+      return ObjectivePriority.HIGH;
+    case 'P2':
+    case 'LOW':
+      return ObjectivePriority.LOW;
+    default:
+      return null;
+  }
+}
+
+export function parseLevel(value?: string | null): ObjectiveLevel | null {
+  if (!value) return null;
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  if (normalized in ObjectiveLevel) {
+    return ObjectiveLevel[normalized as keyof typeof ObjectiveLevel];
+  }
+
+  switch (normalized) {
+    case 'MISSION':
+      return ObjectiveLevel.VISION;
+    case 'OBJECTIVE':
+    case 'OUTCOME':
+      return ObjectiveLevel.GOAL;
+    case 'KR':
+    case 'METRIC':
+      return ObjectiveLevel.KEY_RESULT;
+    case 'PROJECT':
+    case 'EPIC':
+      return ObjectiveLevel.INITIATIVE;
+    case 'ACTION':
+    case 'TODO':
+      return ObjectiveLevel.TASK;
+    default:
+      return null;
+  }
+}
+
+export function parseRelationshipType(value?: string | null): ObjectiveRelationshipType | null {
+  if (!value) return null;
+  const normalized = value.trim().toUpperCase().replace(/\s+/g, '_');
+
+  if (normalized in ObjectiveRelationshipType) {
+    return ObjectiveRelationshipType[normalized as keyof typeof ObjectiveRelationshipType];
+  }
+
+  switch (normalized) {
+    case 'SUPPORTS':
+    case 'ALIGNS_WITH':
+      return ObjectiveRelationshipType.SUPPORTS;
+    case 'UNBLOCKS':
+    case 'BLOCKED_BY':
+    case 'DEPENDS_ON':
+      return ObjectiveRelationshipType.DEPENDS_ON;
+    case 'RELATES_TO':
+    case 'CONNECTED_TO':
+      return ObjectiveRelationshipType.RELATES_TO;
+    case 'BLOCKS':
+      return ObjectiveRelationshipType.BLOCKS;
+    case 'INFORMS':
+    case 'INSPIRES':
+      return ObjectiveRelationshipType.INFORMS;
+    default:
+      return null;
+  }
+}
+
+export function parseConfidence(value?: string | number | null): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' && !Number.isNaN(value)) {
+    return clamp(value);
+  }
+
+  const parsed = parseFloat(String(value).replace(/[^0-9.]/g, ''));
+  if (Number.isNaN(parsed)) return null;
+
+  return parsed > 1 ? clamp(parsed / 100) : clamp(parsed);
+}
+
+const CONFIDENCE_PATTERN = /^(?:\d+(?:\.\d+)?|\.\d+)\s*%?$/;
+
+/** Like `parseConfidence`, but returns null for input that is not a number or percentage. */
+export function matchConfidence(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? parseConfidence(value) : null;
+  const trimmed = value.trim();
+  return CONFIDENCE_PATTERN.test(trimmed) ? parseConfidence(trimmed) : null;
+}
+
+export function parseWeight(value?: string | number | null): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' && !Number.isNaN(value)) {
+    return clamp(value);
+  }
+
+  const parsed = parseFloat(String(value));
+  if (Number.isNaN(parsed)) return null;
+  return clamp(parsed);
+}
+
+function clamp(value: number): number {
+  if (Number.isNaN(value)) return 0;
+  if (value < 0) return 0;
+  if (value > 1) return 1;
+  return value;
+}
+
+export function sanitizeList(values: unknown, opts: { lowercase?: boolean } = {}): string[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const output: string[] = [];
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const trimmed = value.trim();
+    if (!trimmed) continue;
+    const normalized = opts.lowercase ? trimmed.toLowerCase() : trimmed;
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+    output.push(normalized);
+  }
+
+  return output;
+}
@@ -0,0 +1,336 @@
+import { type ExtractionJobStatus } from '@prisma/client';
+import {
+  createKnowledgeGraphEntry,
+  getObjectivesByIds,
+  getObjectivesForPrompt,
+  getRelatednessCandidates,
+  getRelationshipEndpoints,
+  liveObjectiveFilter,
+  prisma,
+  type ObjectiveDTO,
+  type ObjectiveDraft,
+  type RelationshipDraft,
+} from '../database.js';
+import {
+  type AgentGraphExtraction,
+  type AgentObjective,
+  type AgentRelationship,
+} from '../llm/agent.js';
+import { config } from '../config.js';
+import { llmProvider } from '../llm/provider.js';
+import { ensureObjectiveEmbeddings } from '../related/embeddings.js';
+import { extractObjectiveGraphInChunks } from './chunkedExtraction.js';
+import { locateExcerpt } from './sourceSpans.js';
+import {
+  anchorTranscriptExcerpt,
+  isTranscriptFormat,
+  listSpeakers,
+  parseFormattedTranscript,
+} from './transcripts.js';
+import {
+  findPossibleDuplicates,
+  pairKey,
+  suggestRelationships,
+  type DuplicateMatch,
+  type SuggestedRelationship,
+} from '../related/related.js';
+import {
+  normalize,
+  parseConfidence,
+  parseLevel,
+  parsePriority,
+  parseRelationshipType,
+  parseStatus,
+  parseWeight,
+  sanitizeList,
+} from './normalization.js';
+
+// Duplicate checks look further back than relationship suggestions
+const DUPLICATE_CANDIDATE_LIMIT = 1000;
+
+export type ExtractionStage = Extract<ExtractionJobStatus, 'EXTRACTING' | 'DEDUPLICATING' | 'PERSISTING'>;
+
+export interface ExtractionInput {
+  text: string;
+  title?: string | null;
+  /** Forces the source label (e.g. an uploaded filename) instead of letting the agent choose one */
+  sourceLabel?: string | null;
+  /** Upload format; `vtt`/`srt` text is expected in the `[HH:MM:SS] Speaker: text` form */
+  format?: string | null;
+  tags?: string[];
+}
+
+export interface PossibleDuplicate {
+  draft: ObjectiveDraft;
+  matches: DuplicateMatch[];
+}
+
+export interface ExtractionResult {
+  entryId: string | null;
+  objectives: ObjectiveDTO[];
+  duplicatesSkipped: number;
+  // Statements held back because they closely match existing objectives
+  possibleDuplicates: PossibleDuplicate[];
+  relationshipsCreated: number;
+  suggestedRelationships: SuggestedRelationship[];
+}
+
+/**
+ * Runs the full intake: LLM extraction, duplicate filtering and persistence.
+ * `onStage` is awaited before each phase so callers can report progress.
+ */
+export async function runExtractionPipeline(
+  { text, title, sourceLabel, format, tags }: ExtractionInput,
+  onStage: (stage: ExtractionStage) => Promise<void> | void = () => {},
+): Promise<ExtractionResult> {
+  const manualTags = sanitizeList(tags ?? [], { lowercase: true });
+  console.log(`📝 [INPUT] Received text: ${text.length} characters`);
+  console.log(`📝 [INPUT] Preview: "${text.substring(0, 140)}${text.length > 140 ? '…' : ''}"`);
+
+  await onStage('EXTRACTING');
+  const existingObjectives = await getObjectivesForPrompt(24);
+  console.log(`📚 [CONTEXT] Providing ${existingObjectives.length} objectives to the agent for grounding`);
+
+  const transcriptTurns = isTranscriptFormat(format) ? parseFormattedTranscript(text) : [];
+  const speakers = listSpeakers(transcriptTurns);
+  if (transcriptTurns.length > 0) {
+    console.log(`🎙️ [TRANSCRIPT] ${transcriptTurns.length} turns from ${speakers.length} speakers`);
+  }
+
+  console.log('🤖 [LLM] Requesting structured graph extraction...');
+  const extraction = await extractObjectiveGraphInChunks(text, {
+    title: title ?? null,
+    existingObjectives,
+    transcript: transcriptTurns.length > 0 ? { speakers } : null,
+  });
+
+  await onStage('DEDUPLICATING');
+  const drafts = await prepareObjectiveDrafts(extraction, {
+    title: title ?? null,
+    rawText: text,
+  });
+
+  const finishDraft = (objective: ObjectiveDraft): ObjectiveDraft => {
+    const sourceExcerpt =
+      transcriptTurns.length > 0
+        ? anchorTranscriptExcerpt(objective.sourceExcerpt, transcriptTurns)
+        : objective.sourceExcerpt;
+    const span = locateExcerpt(text, sourceExcerpt);
+
+    return {
+      ...objective,
+      sourceExcerpt,
+      sourceStart: span?.start ?? null,
+      sourceEnd: span?.end ?? null,
+      sourceLabel: sourceLabel || objective.sourceLabel,
+      tags: manualTags.length > 0 ? Array.from(new Set([...(objective.tags ?? []), ...manualTags])) : objective.tags,
+    };
+  };
+  drafts.objectives = drafts.objectives.map(finishDraft);
+  const possibleDuplicates = drafts.possibleDuplicates.map((duplicate) => ({
+    ...duplicate,
+    draft: finishDraft(duplicate.draft),
+  }));
+
+  // An entry is still stored for held-back duplicates so they can be added to it later
+  if (drafts.objectives.length === 0 && drafts.relationships.length === 0 && possibleDuplicates.length === 0) {
+    console.log('⚠️ [RESULT] No new objectives or relationships to store');
+    return {
+      entryId: null,
+      objectives: [],
+      duplicatesSkipped: drafts.duplicates,
+      possibleDuplicates: [],
+      relationshipsCreated: 0,
+      suggestedRelationships: [],
+    };
+  }
+
+  await onStage('PERSISTING');
+  console.log(`💾 [DATABASE] Persisting ${drafts.objectives.length} objectives and ${drafts.relationships.length} relationships`);
+  const persistenceResult = await createKnowledgeGraphEntry({
+    rawContent: text,
+    title: sourceLabel ?? extraction.title ?? title ?? null,
+    sourceFormat: format ?? null,
+    extractionModel: llmProvider.modelName,
+    objectives: drafts.objectives,
+    relationships: drafts.relationships,
+  });
+
+  if (config.EMBEDDINGS_ENABLED) {
+    try {
+      await ensureObjectiveEmbeddings(persistenceResult.objectives, persistenceResult.objectives.length);
+    } catch (embeddingError) {
+      console.warn('⚠️ [EMBEDDINGS] Failed to index new objectives, they will be embedded on demand:', embeddingError);
+    }
+  }
+
+  const objectiveIds = persistenceResult.objectives.map((obj) => obj.id);
+  const insertedObjectives = await getObjectivesByIds(objectiveIds);
+
+  // Held-back drafts are added later on their own, so parents from this batch must point at stored ids
+  const heldBack = possibleDuplicates.map((duplicate) => ({
+    ...duplicate,
+    draft: { ...duplicate.draft, parentKey: resolveStoredParentKey(duplicate.draft.parentKey, persistenceResult.keyToId) },
+  }));
+
+  const suggestedRelationships = await buildRelationshipSuggestions(persistenceResult.objectives);
+  console.log(`🔗 [RELATED] Suggesting ${suggestedRelationships.length} additional relationships`);
+
+  return {
+    entryId: persistenceResult.entry.id,
+    objectives: insertedObjectives,
+    duplicatesSkipped: drafts.duplicates,
+    possibleDuplicates: heldBack,
+    relationshipsCreated: persistenceResult.relationships.length,
+    suggestedRelationships,
+  };
+}
+
+function resolveStoredParentKey(parentKey: string | null | undefined, keyToId: Map<string, string>): string | null {
+  if (!parentKey) return null;
+  if (parentKey.startsWith('existing:')) return parentKey;
+  const id = keyToId.get(parentKey);
+  return id ? `existing:${id}` : null;
+}
+
+async function buildRelationshipSuggestions(
+  objectives: Array<{ id: string; text: string; context: string | null; metrics: string[] }>,
+): Promise<SuggestedRelationship[]> {
+  try {
+    const objectiveIds = objectives.map((objective) => objective.id);
+    const [candidates, endpoints] = await Promise.all([
+      getRelatednessCandidates(),
+      getRelationshipEndpoints(objectiveIds),
+    ]);
+    const linkedPairs = new Set(endpoints.map((link) => pairKey(link.fromId, link.toId)));
+
+    return await suggestRelationships(objectives, candidates, linkedPairs);
+  } catch (error) {
+    // Suggestions are advisory; never fail the intake because of them
+    console.warn('⚠️ [RELATED] Failed to compute relationship suggestions:', error);
+    return [];
+  }
+}
+
+async function prepareObjectiveDrafts(
+  extraction: AgentGraphExtraction,
+  meta: { title: string | null; rawText: string },
+): Promise<{
+  objectives: ObjectiveDraft[];
+  relationships: RelationshipDraft[];
+  duplicates: number;
+  possibleDuplicates: PossibleDuplicate[];
+}> {
+  const seenTexts = new Set<string>();
+  const normalizedStatements = extraction.objectives.map((objective) => normalize(objective.statement));
+
+  const existingMatches = normalizedStatements.length > 0
+    ? await prisma.objective.findMany({
+        where: {
+          ...liveObjectiveFilter,
+          OR: normalizedStatements.map((val) => ({
+            text: {
+              equals: val.original,
+              mode: 'insensitive' as const,
+            },
+          })),
+        },
+        select: { text: true },
+      })
+    : [];
+
+  for (const match of existingMatches) {
+    seenTexts.add(normalize(match.text).normalized);
+  }
+
+  let objectives: ObjectiveDraft[] = [];
+  let duplicates = 0;
+
+  for (const objective of extraction.objectives) {
+    const normalized = normalize(objective.statement);
+    if (normalized.normalized.length === 0) continue;
+
+    if (seenTexts.has(normalized.normalized)) {
+      duplicates += 1;
+      continue;
+    }
+
+    seenTexts.add(normalized.normalized);
+    objectives.push(toObjectiveDraft(objective, meta));
+  }
+
+  const possibleDuplicates = await flagPossibleDuplicates(objectives);
+  const flaggedKeys = new Set(possibleDuplicates.map((duplicate) => duplicate.draft.key));
+  if (flaggedKeys.size > 0) {
+    console.log(`🪞 [DUPLICATES] Holding back ${flaggedKeys.size} statements that closely match existing objectives`);
+  }
+  objectives = objectives.filter((objective) => !flaggedKeys.has(objective.key));
+
+  const validKeys = new Set(objectives.map((objective) => objective.key));
+  const relationships = (extraction.relationships ?? [])
+    .map((relationship) => toRelationshipDraft(relationship))
+    .filter((rel): rel is RelationshipDraft => {
+      if (!rel) return false;
+      const fromValid = rel.from.startsWith('existing:') || validKeys.has(rel.from);
+      const toValid = rel.to.startsWith('existing:') || validKeys.has(rel.to);
+      return fromValid && toValid;
+    });
+
+  return { objectives, relationships, duplicates, possibleDuplicates };
+}
+
+async function flagPossibleDuplicates(objectives: ObjectiveDraft[]): Promise<PossibleDuplicate[]> {
+  try {
+    const candidates = await getRelatednessCandidates(DUPLICATE_CANDIDATE_LIMIT);
+    const matches = await findPossibleDuplicates(
+      objectives.map((objective) => ({
+        key: objective.key,
+        text: objective.text,
+        context: objective.context,
+        metrics: objective.metrics,
+      })),
+      candidates,
+    );
+
+    return objectives
+      .filter((objective) => matches.has(objective.key))
+      .map((objective) => ({ draft: objective, matches: matches.get(objective.key) ?? [] }));
+  } catch (error) {
+    // Like suggestions, the check is advisory; an unavailable comparison should not block the intake
+    console.warn('⚠️ [DUPLICATES] Failed to check for possible duplicates:', error);
+    return [];
+  }
+}
+
+export function toObjectiveDraft(objective: AgentObjective, meta: { title: string | null; rawText: string }): ObjectiveDraft {
+  return {
+    key: objective.key,
+    text: objective.statement.trim(),
+    context: objective.context?.trim() ?? null,
+    category: objective.category ?? null,
+    timeframe: objective.timeframe ?? null,
+    status: parseStatus(objective.status),
+    priority: parsePriority(objective.priority),
+    confidence: parseConfidence(objective.confidence),
+    owner: objective.owner?.trim() ?? null,
+    metrics: sanitizeList(objective.metrics),
+    tags: sanitizeList(objective.tags, { lowercase: true }),
+    sourceLabel: objective.sourceLabel?.trim() ?? meta.title ?? 'Unlabeled intake',
+    sourceExcerpt: objective.sourceExcerpt?.trim() ?? null,
+    level: parseLevel(objective.level),
+    parentKey: objective.parentKey?.trim() || null,
+  } satisfies ObjectiveDraft;
+}
+
+export function toRelationshipDraft(relationship: AgentRelationship): RelationshipDraft | null {
+  const type = parseRelationshipType(relationship.type);
+  if (!type) return null;
+
+  return {
+    from: relationship.from,
+    to: relationship.to,
+    type,
+    rationale: relationship.rationale?.trim() ?? null,
+    weight: parseWeight(relationship.weight),
+  } satisfies RelationshipDraft;
+}
@@ -0,0 +1,334 @@
+import type { ObjectiveReviewState } from '@prisma/client';
+import {
+  applyEntryReextraction,
+  findObjectivesByTexts,
+  getKnowledgeEntryById,
+  getObjectivesForPrompt,
+  getRelationshipEndpoints,
+  type AuditContext,
+  type ObjectiveDTO,
+  type ObjectiveDraft,
+  type ObjectiveUpdateInput,
+  type RelationshipDraft,
+} from '../database.js';
+import { llmProvider } from '../llm/provider.js';
+import { pairKey, textSimilarity } from '../related/related.js';
+import { extractObjectiveGraphInChunks } from './chunkedExtraction.js';
+import { normalize } from './normalization.js';
+import { toObjectiveDraft, toRelationshipDraft, type ExtractionStage } from './pipeline.js';
+import { locateExcerpt, type SourceSpan } from './sourceSpans.js';
+import {
+  anchorTranscriptExcerpt,
+  isTranscriptFormat,
+  listSpeakers,
+  parseFormattedTranscript,
+} from './transcripts.js';
+
+// Minimum keyword overlap for a re-extracted statement to count as a rewording of an existing one
+const MATCH_SIMILARITY_THRESHOLD = 0.5;
+
+const SCALAR_FIELDS = [
+  'text',
+  'context',
+  'category',
+  'timeframe',
+  'status',
+  'priority',
+  'owner',
+  'sourceExcerpt',
+  'level',
+] as const;
+
+type ComparedField = (typeof SCALAR_FIELDS)[number] | 'metrics' | 'tags';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ReextractionProposal {
+  entryId: string;
+  model: string;
+  previousModel: string | null;
+  added: Array<{ key: string; draft: ObjectiveDraft }>;
+  updated: Array<{
+    objectiveId: string;
+    key: string;
+    text: string;
+    changes: Partial<Record<ComparedField, FieldChange>>;
+    // Where the new excerpt sits in the raw text, applied together with a sourceExcerpt change
+    span: SourceSpan | null;
+  }>;
+  unchanged: Array<{ objectiveId: string; key: string; text: string }>;
+  removed: Array<{ objectiveId: string; text: string; reviewState: ObjectiveReviewState }>;
+  // New statements that already exist elsewhere in the graph and will not be created again
+  duplicates: Array<{ key: string; text: string; duplicateOfId: string }>;
+  relationships: RelationshipDraft[];
+}
+
+export interface ReextractionSelection {
+  add?: string[];
+  update?: string[];
+  discard?: string[];
+}
+
+export class ReextractionError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: 404 | 409,
+  ) {
+    super(message);
+    this.name = 'ReextractionError';
+  }
+}
+
+/**
+ * Re-runs extraction on a stored entry and compares the result with the
+ * objectives the entry produced before. Nothing is written; the proposal is
+ * reviewed and applied separately.
+ */
+export async function buildReextractionProposal(
+  entryId: string,
+  model: string | null,
+  onStage: (stage: ExtractionStage) => Promise<void> | void = () => {},
+): Promise<ReextractionProposal> {
+  const entry = await getKnowledgeEntryById(entryId);
+  if (!entry) {
+    throw new ReextractionError('Knowledge entry not found', 404);
+  }
+
+  await onStage('EXTRACTING');
+  const transcriptTurns = isTranscriptFormat(entry.sourceFormat) ? parseFormattedTranscript(entry.rawContent) : [];
+  const existingObjectives = await getObjectivesForPrompt(24);
+  const extraction = await extractObjectiveGraphInChunks(entry.rawContent, {
+    title: entry.title,
+    existingObjectives,
+    transcript: transcriptTurns.length > 0 ? { speakers: listSpeakers(transcriptTurns) } : null,
+    model,
+  });
+
+  await onStage('DEDUPLICATING');
+  const meta = { title: entry.title, rawText: entry.rawContent };
+  const seen = new Set<string>();
+  const drafts: ObjectiveDraft[] = [];
+  for (const objective of extraction.objectives) {
+    const normalized = normalize(objective.statement ?? '').normalized;
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+
+    const draft = toObjectiveDraft(objective, meta);
+    // Keep the entry's label (e.g. the uploaded filename) rather than whatever the model picks
+    draft.sourceLabel = entry.objectives[0]?.sourceLabel ?? draft.sourceLabel;
+    if (transcriptTurns.length > 0) {
+      draft.sourceExcerpt = anchorTranscriptExcerpt(draft.sourceExcerpt, transcriptTurns);
+    }
+    const span = locateExcerpt(entry.rawContent, draft.sourceExcerpt);
+    draft.sourceStart = span?.start ?? null;
+    draft.sourceEnd = span?.end ?? null;
+    drafts.push(draft);
+  }
+
+  const matches = matchDrafts(drafts, entry.objectives);
+  const proposal: ReextractionProposal = {
+    entryId,
+    model: model || llmProvider.modelName,
+    previousModel: entry.extractionModel,
+    added: [],
+    updated: [],
+    unchanged: [],
+    removed: [],
+    duplicates: [],
+    relationships: [],
+  };
+
+  const referenceByKey = new Map<string, string>();
+  const unmatched = drafts.filter((draft) => !matches.has(draft.key));
+  const elsewhere = await findObjectivesByTexts(unmatched.map((draft) => draft.text));
+  const elsewhereByText = new Map(elsewhere.map((objective) => [normalize(objective.text).normalized, objective]));
+
+  for (const draft of drafts) {
+    const existing = matches.get(draft.key);
+    if (existing) {
+      referenceByKey.set(draft.key, `existing:${existing.id}`);
+      const changes = diffObjective(existing, draft);
+      if (Object.keys(changes).length > 0) {
+        const span = locateExcerpt(entry.rawContent, draft.sourceExcerpt);
+        proposal.updated.push({ objectiveId: existing.id, key: draft.key, text: existing.text, changes, span });
+      } else {
+        proposal.unchanged.push({ objectiveId: existing.id, key: draft.key, text: existing.text });
+      }
+      continue;
+    }
+
+    const duplicate = elsewhereByText.get(normalize(draft.text).normalized);
+    if (duplicate) {
+      referenceByKey.set(draft.key, `existing:${duplicate.id}`);
+      proposal.duplicates.push({ key: draft.key, text: draft.text, duplicateOfId: duplicate.id });
+      continue;
+    }
+
+    referenceByKey.set(draft.key, draft.key);
+    proposal.added.push({ key: draft.key, draft });
+  }
+
+  // Parents that matched stored objectives are referenced by id once the additions are created
+  for (const { draft } of proposal.added) {
+    if (draft.parentKey) draft.parentKey = referenceByKey.get(draft.parentKey) ?? draft.parentKey;
+  }
+
+  const matchedIds = new Set(Array.from(matches.values()).map((objective) => objective.id));
+  proposal.removed = entry.objectives
+    .filter((objective) => !matchedIds.has(objective.id))
+    .map((objective) => ({ objectiveId: objective.id, text: objective.text, reviewState: objective.reviewState }));
+
+  proposal.relationships = await resolveRelationships(extraction.relationships, referenceByKey);
+
+  console.log(
+    `🔁 [REEXTRACT] Entry ${entryId}: ${proposal.added.length} added, ${proposal.updated.length} updated, ${proposal.unchanged.length} unchanged, ${proposal.removed.length} no longer extracted`,
+  );
+
+  return proposal;
+}
+
+/** Applies the selected parts of a proposal. Unselected additions also drop the relationships that need them. */
+export async function applyReextractionProposal(
+  jobId: string,
+  proposal: ReextractionProposal,
+  selection: ReextractionSelection,
+  audit?: AuditContext,
+) {
+  const addKeys = new Set(selection.add ?? proposal.added.map((item) => item.key));
+  const updateIds = new Set(selection.update ?? proposal.updated.map((item) => item.objectiveId));
+  const removableIds = new Set(proposal.removed.map((item) => item.objectiveId));
+
+  // Statements may have been captured elsewhere since the proposal was built
+  const candidates = proposal.added.filter((item) => addKeys.has(item.key)).map((item) => item.draft);
+  const existingTexts = new Set(
+    (await findObjectivesByTexts(candidates.map((draft) => draft.text))).map(
+      (objective) => normalize(objective.text).normalized,
+    ),
+  );
+  const create = candidates.filter((draft) => !existingTexts.has(normalize(draft.text).normalized));
+  const createdKeys = new Set(create.map((draft) => draft.key));
+
+  const result = await applyEntryReextraction(proposal.entryId, jobId, {
+    create,
+    update: proposal.updated
+      .filter((item) => updateIds.has(item.objectiveId))
+      .map((item) => ({ id: item.objectiveId, changes: toUpdateInput(item.changes, item.span) })),
+    discardIds: (selection.discard ?? []).filter((id) => removableIds.has(id)),
+    relationships: proposal.relationships.filter(
+      (relationship) =>
+        [relationship.from, relationship.to].every((ref) => ref.startsWith('existing:') || createdKeys.has(ref)),
+    ),
+    extractionModel: proposal.model,
+  }, audit);
+
+  if (!result) {
+    throw new ReextractionError('This re-extraction has already been applied or is not ready yet', 409);
+  }
+
+  return result;
+}
+
+function matchDrafts(drafts: ObjectiveDraft[], existing: ObjectiveDTO[]): Map<string, ObjectiveDTO> {
+  const matches = new Map<string, ObjectiveDTO>();
+  const taken = new Set<string>();
+
+  const byText = new Map(existing.map((objective) => [normalize(objective.text).normalized, objective]));
+  for (const draft of drafts) {
+    const exact = byText.get(normalize(draft.text).normalized);
+    if (exact && !taken.has(exact.id)) {
+      matches.set(draft.key, exact);
+      taken.add(exact.id);
+    }
+  }
+
+  // Pair the remaining rewordings greedily, most similar first
+  const pairs: Array<{ draft: ObjectiveDraft; objective: ObjectiveDTO; score: number }> = [];
+  for (const draft of drafts) {
+    if (matches.has(draft.key)) continue;
+    for (const objective of existing) {
+      if (taken.has(objective.id)) continue;
+      const score = textSimilarity(draft.text, objective.text);
+      if (score >= MATCH_SIMILARITY_THRESHOLD) pairs.push({ draft, objective, score });
+    }
+  }
+
+  for (const { draft, objective } of pairs.sort((a, b) => b.score - a.score)) {
+    if (matches.has(draft.key) || taken.has(objective.id)) continue;
+    matches.set(draft.key, objective);
+    taken.add(objective.id);
+  }
+
+  return matches;
+}
+
+function diffObjective(existing: ObjectiveDTO, draft: ObjectiveDraft): Partial<Record<ComparedField, FieldChange>> {
+  const changes: Partial<Record<ComparedField, FieldChange>> = {};
+
+  for (const field of SCALAR_FIELDS) {
+    const next = draft[field];
+    // A missing value in the new extraction never wipes what is already stored
+    if (next === null || next === undefined || next === '') continue;
+    if (next !== existing[field]) changes[field] = { from: existing[field], to: next };
+  }
+
+  const metrics = draft.metrics ?? [];
+  if (metrics.length > 0 && !sameSet(metrics, existing.metrics)) {
+    changes.metrics = { from: existing.metrics, to: metrics };
+  }
+
+  // Tags are merged so manual tags survive re-extraction
+  const tags = Array.from(new Set([...existing.tags, ...(draft.tags ?? [])]));
+  if (tags.length > existing.tags.length) {
+    changes.tags = { from: existing.tags, to: tags };
+  }
+
+  return changes;
+}
+
+function toUpdateInput(
+  changes: Partial<Record<ComparedField, FieldChange>>,
+  span: SourceSpan | null | undefined,
+): ObjectiveUpdateInput {
+  const input: Record<string, unknown> = {};
+  for (const [field, change] of Object.entries(changes)) {
+    if (change) input[field] = change.to;
+  }
+  if (changes.sourceExcerpt) {
+    input.sourceStart = span?.start ?? null;
+    input.sourceEnd = span?.end ?? null;
+  }
+  return input as ObjectiveUpdateInput;
+}
+
+async function resolveRelationships(
+  relationships: Parameters<typeof toRelationshipDraft>[0][],
+  referenceByKey: Map<string, string>,
+): Promise<RelationshipDraft[]> {
+  const resolve = (ref: string) => (ref.startsWith('existing:') ? ref : referenceByKey.get(ref) ?? null);
+
+  const drafts = relationships
+    .map((relationship) => toRelationshipDraft(relationship))
+    .filter((draft): draft is RelationshipDraft => draft !== null)
+    .map((draft) => ({ ...draft, from: resolve(draft.from), to: resolve(draft.to) }))
+    .filter((draft): draft is RelationshipDraft => !!draft.from && !!draft.to && draft.from !== draft.to);
+
+  const existingIds = drafts
+    .flatMap((draft) => [draft.from, draft.to])
+    .filter((ref) => ref.startsWith('existing:'))
+    .map((ref) => ref.slice('existing:'.length));
+  const linked = new Set(
+    (await getRelationshipEndpoints(existingIds)).map((link) => pairKey(link.fromId, link.toId)),
+  );
+
+  const toId = (ref: string) => ref.replace(/^existing:/, '');
+  return drafts.filter((draft) => !linked.has(pairKey(toId(draft.from), toId(draft.to))));
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(b);
+  return a.every((value) => set.has(value));
+}
@@ -0,0 +1,156 @@
+import type { KnowledgeEntryDTO } from '../database.js';
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// Share of the excerpt's words that must appear close together for a paraphrased excerpt to count as found
+const FUZZY_MATCH_THRESHOLD = 0.6;
+const MIN_FUZZY_TERMS = 3;
+// Fuzzy matching costs text words × excerpt words, so long excerpts are matched on their opening words
+const MAX_FUZZY_TERMS = 40;
+
+const TRANSCRIPT_PREFIX_PATTERN = /^\[\d{2}:\d{2}:\d{2}\]\s*(?:[^:\n]{1,60}:\s+)?/;
+const WRAPPING_PUNCTUATION_PATTERN = /^["'“”‘’«»\s]+|["'“”‘’«»\s]+$/g;
+const ELLIPSIS_PATTERN = /^(?:\.\.\.|…)\s*|\s*(?:\.\.\.|…)$/g;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Finds where an objective's `sourceExcerpt` sits in the entry's raw text.
+ * Tries a verbatim match, then one that ignores case, whitespace and quote
+ * style, then (unless `fuzzy` is off) the densest window of the excerpt's
+ * words for paraphrases.
+ */
+export function locateExcerpt(
+  rawText: string,
+  excerpt: string | null | undefined,
+  { fuzzy = true }: { fuzzy?: boolean } = {},
+): SourceSpan | null {
+  const cleaned = excerpt?.trim().replace(WRAPPING_PUNCTUATION_PATTERN, '').replace(ELLIPSIS_PATTERN, '').trim();
+  if (!rawText || !cleaned) return null;
+
+  // Transcript excerpts are anchored as "[HH:MM:SS] Speaker: …" but may quote the middle of a turn
+  const withoutPrefix = cleaned.replace(TRANSCRIPT_PREFIX_PATTERN, '');
+  const candidates = withoutPrefix && withoutPrefix !== cleaned ? [cleaned, withoutPrefix] : [cleaned];
+
+  for (const candidate of candidates) {
+    const index = rawText.indexOf(candidate);
+    if (index !== -1) return { start: index, end: index + candidate.length };
+  }
+
+  const haystack = foldText(rawText);
+  for (const candidate of candidates) {
+    const needle = foldText(candidate).folded;
+    const index = haystack.folded.indexOf(needle);
+    if (needle && index !== -1) {
+      return { start: haystack.offsets[index], end: haystack.offsets[index + needle.length - 1] + 1 };
+    }
+  }
+
+  return fuzzy ? fuzzyLocate(rawText, candidates[candidates.length - 1]) : null;
+}
+
+/** Locates excerpts for objectives stored before offsets were recorded. */
+export function locateMissingSourceSpans(
+  entry: KnowledgeEntryDTO,
+  options: { fuzzy?: boolean } = {},
+): Array<{ id: string } & SourceSpan> {
+  const spans: Array<{ id: string } & SourceSpan> = [];
+  for (const objective of entry.objectives) {
+    if (objective.sourceStart !== null || !objective.sourceExcerpt) continue;
+    const span = locateExcerpt(entry.rawContent, objective.sourceExcerpt, options);
+    if (span) spans.push({ id: objective.id, ...span });
+  }
+  return spans;
+}
+
+/**
+ * Fills in offsets for older objectives in memory; `npm run db:backfill-spans` persists them.
+ * Runs on reads, so paraphrased excerpts are left to the backfill's fuzzy search.
+ */
+export function withSourceSpans(entry: KnowledgeEntryDTO): KnowledgeEntryDTO {
+  const spans = locateMissingSourceSpans(entry, { fuzzy: false });
+  if (spans.length === 0) return entry;
+
+  const byId = new Map(spans.map((span) => [span.id, span]));
+  return {
+    ...entry,
+    objectives: entry.objectives.map((objective) => {
+      const span = byId.get(objective.id);
+      return span ? { ...objective, sourceStart: span.start, sourceEnd: span.end } : objective;
+    }),
+  };
+}
+
+// Lowercases, unifies quotes and dashes and collapses whitespace, remembering each character's original index
+function foldText(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      pendingSpace = folded.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      folded += ' ';
+      offsets.push(index);
+      pendingSpace = false;
+    }
+    folded += foldChar(char);
+    offsets.push(index);
+  }
+
+  return { folded, offsets };
+}
+
+function foldChar(char: string): string {
+  if (char === '‘' || char === '’') return "'";
+  if (char === '“' || char === '”') return '"';
+  if (char === '–' || char === '—') return '-';
+  const lower = char.toLowerCase();
+  return lower.length === 1 ? lower : char;
+}
+
+function fuzzyLocate(rawText: string, excerpt: string): SourceSpan | null {
+  const needle = Array.from(excerpt.matchAll(WORD_PATTERN), (match) => match[0].toLowerCase()).slice(0, MAX_FUZZY_TERMS);
+  if (needle.length < MIN_FUZZY_TERMS) return null;
+
+  const words = Array.from(rawText.matchAll(WORD_PATTERN), (match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+  const wanted = new Map<string, number>();
+  for (const word of needle) wanted.set(word, (wanted.get(word) ?? 0) + 1);
+
+  let best: SourceSpan | null = null;
+  let bestScore = 0;
+
+  for (let first = 0; first < words.length; first += 1) {
+    if (!wanted.has(words[first].word)) continue;
+
+    const remaining = new Map(wanted);
+    let matched = 0;
+    let last = first;
+    for (let index = first; index < Math.min(words.length, first + needle.length); index += 1) {
+      const count = remaining.get(words[index].word) ?? 0;
+      if (count === 0) continue;
+      remaining.set(words[index].word, count - 1);
+      matched += 1;
+      last = index;
+    }
+
+    const score = matched / needle.length;
+    if (score > bestScore) {
+      best = { start: words[first].start, end: words[last].end };
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= FUZZY_MATCH_THRESHOLD ? best : null;
+}
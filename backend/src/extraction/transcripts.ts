@@ -0,0 +1,146 @@
+import { normalize } from './normalization.js';
+
+export type TranscriptFormat = 'vtt' | 'srt';
+
+export function isTranscriptFormat(format: string | null | undefined): format is TranscriptFormat {
+  return format === 'vtt' || format === 'srt';
+}
+
+export interface TranscriptTurn {
+  speaker: string | null;
+  /** Start of the turn as HH:MM:SS */
+  start: string;
+  text: string;
+}
+
+const TIMING_PATTERN = /((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+const VOICE_TAG_PATTERN = /^<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+const COLON_SPEAKER_PATTERN = /^([A-Z][\p{L}0-9 .'-]{0,40}?):\s+(.+)$/su;
+const BRACKET_SPEAKER_PATTERN = /^\[([^\]]{1,40})\]\s*(.+)$/s;
+const FORMATTED_TURN_PATTERN = /^\[(\d{2}:\d{2}:\d{2})\]\s+(?:([^:\n]{1,40}):\s+)?(.+)$/s;
+const TIMESTAMP_PREFIX_PATTERN = /^\[\d{2}:\d{2}:\d{2}\]/;
+
+/**
+ * Parses WebVTT or SRT cues into speaker turns. Consecutive cues from the same
+ * speaker are merged so a single commitment is not split across many cues.
+ */
+export function parseTranscript(raw: string): TranscriptTurn[] {
+  const blocks = raw.replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/);
+  const turns: TranscriptTurn[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line));
+    if (timingIndex < 0) continue; // WEBVTT header, NOTE, STYLE and REGION blocks
+
+    const timing = lines[timingIndex].match(TIMING_PATTERN);
+    const payload = lines.slice(timingIndex + 1).join(' ');
+    if (!timing || !payload) continue;
+
+    const { speaker, text } = splitSpeaker(payload);
+    if (!text) continue;
+
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === speaker) {
+      previous.text = `${previous.text} ${text}`;
+      continue;
+    }
+
+    turns.push({ speaker, start: toClockTime(timing[1]), text });
+  }
+
+  return turns;
+}
+
+/** Renders turns as `[HH:MM:SS] Speaker: text` paragraphs, the form stored and sent to the agent. */
+export function formatTranscript(turns: TranscriptTurn[]): string {
+  return turns
+    .map((turn) => `[${turn.start}] ${turn.speaker ? `${turn.speaker}: ` : ''}${turn.text}`)
+    .join('\n\n');
+}
+
+/** Reads turns back from text produced by `formatTranscript`. */
+export function parseFormattedTranscript(text: string): TranscriptTurn[] {
+  return text
+    .split(/\n[ \t]*\n/)
+    .map((paragraph) => paragraph.trim().match(FORMATTED_TURN_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ start: match[1], speaker: match[2]?.trim() ?? null, text: match[3].trim() }));
+}
+
+export function listSpeakers(turns: TranscriptTurn[]): string[] {
+  return Array.from(new Set(turns.map((turn) => turn.speaker).filter((speaker): speaker is string => !!speaker)));
+}
+
+/**
+ * Ensures an excerpt points back into the transcript by prefixing the timestamp
+ * and speaker of the turn it was quoted from. Excerpts that already carry a
+ * timestamp, or that cannot be located, are returned unchanged.
+ */
+export function anchorTranscriptExcerpt(excerpt: string | null | undefined, turns: TranscriptTurn[]): string | null {
+  const trimmed = excerpt?.trim();
+  if (!trimmed) return null;
+  if (TIMESTAMP_PREFIX_PATTERN.test(trimmed)) return trimmed;
+
+  const needle = normalize(stripSpeakerLabel(trimmed)).normalized;
+  const turn =
+    turns.find((candidate) => normalize(candidate.text).normalized.includes(needle)) ??
+    bestOverlappingTurn(needle, turns);
+  if (!turn) return trimmed;
+
+  return `[${turn.start}] ${turn.speaker ? `${turn.speaker}: ` : ''}${stripSpeakerLabel(trimmed)}`;
+}
+
+function splitSpeaker(payload: string): { speaker: string | null; text: string } {
+  const voice = payload.match(VOICE_TAG_PATTERN);
+  if (voice) {
+    return { speaker: voice[1].trim(), text: stripTags(payload) };
+  }
+
+  const text = stripTags(payload);
+  const labelled = text.match(COLON_SPEAKER_PATTERN) ?? text.match(BRACKET_SPEAKER_PATTERN);
+  if (labelled) {
+    return { speaker: labelled[1].trim(), text: labelled[2].trim() };
+  }
+
+  return { speaker: null, text };
+}
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function stripSpeakerLabel(excerpt: string): string {
+  return excerpt.match(COLON_SPEAKER_PATTERN)?.[2]?.trim() ?? excerpt;
+}
+
+function bestOverlappingTurn(needle: string, turns: TranscriptTurn[]): TranscriptTurn | null {
+  const needleTerms = new Set(needle.split(' ').filter((term) => term.length > 3));
+  if (needleTerms.size === 0) return null;
+
+  let best: TranscriptTurn | null = null;
+  let bestScore = 0;
+
+  for (const turn of turns) {
+    const turnTerms = new Set(normalize(turn.text).normalized.split(' '));
+    let shared = 0;
+    for (const term of needleTerms) {
+      if (turnTerms.has(term)) shared += 1;
+    }
+    const score = shared / needleTerms.size;
+    if (score > bestScore) {
+      best = turn;
+      bestScore = score;
+    }
+  }
+
+  // Require most of the excerpt's distinctive words to appear in the turn
+  return bestScore >= 0.6 ? best : null;
+}
+
+function toClockTime(timestamp: string): string {
+  const [clock] = timestamp.split(/[.,]/);
+  const parts = clock.split(':').map((part) => parseInt(part, 10));
+  while (parts.length < 3) parts.unshift(0);
+  return parts.map((part) => String(part).padStart(2, '0')).join(':');
+}
@@ -0,0 +1,21 @@
+export interface MeasuredKeyResult {
+  baseline: number;
+  target: number;
+  currentValue: number;
+}
+
+/**
+ * Share of the way from baseline to target, clamped to 0–1. Works for targets
+ * below the baseline (e.g. "cut churn from 8% to 5%") as well as above it.
+ */
+export function keyResultProgress({ baseline, target, currentValue }: MeasuredKeyResult): number {
+  const span = target - baseline;
+  if (span === 0) return currentValue === target ? 1 : 0;
+  return Math.min(1, Math.max(0, (currentValue - baseline) / span));
+}
+
+/** Mean of the given progress values, or null when there is nothing to measure. */
+export function averageProgress(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,84 @@
+import { ObjectiveLevel, ObjectiveStatus } from '@prisma/client';
+import type { HierarchyObjective } from '../database.js';
+import { averageProgress } from './progress.js';
+
+const LEVEL_ORDER: Record<ObjectiveLevel, number> = {
+  [ObjectiveLevel.VISION]: 0,
+  [ObjectiveLevel.GOAL]: 1,
+  [ObjectiveLevel.KEY_RESULT]: 2,
+  [ObjectiveLevel.INITIATIVE]: 3,
+  [ObjectiveLevel.TASK]: 4,
+};
+
+export interface ObjectiveTreeRollup {
+  descendants: number;
+  complete: number;
+  blocked: number;
+  // Own key-result progress and each child's rolled-up progress, weighted equally; null when nothing is measured
+  progress: number | null;
+}
+
+export interface ObjectiveTreeNode extends Omit<HierarchyObjective, 'createdAt'> {
+  children: ObjectiveTreeNode[];
+  rollup: ObjectiveTreeRollup;
+}
+
+/**
+ * Nests objectives under their parents. Objectives whose parent is hidden (or
+ * that sit in a parent loop) become roots so nothing drops out of the outline.
+ * Siblings are ordered by level, then by creation time.
+ */
+export function buildObjectiveTree(objectives: HierarchyObjective[]): ObjectiveTreeNode[] {
+  const sorted = [...objectives].sort(
+    (a, b) => levelRank(a) - levelRank(b) || a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  const ids = new Set(sorted.map((objective) => objective.id));
+  const childrenOf = new Map<string, HierarchyObjective[]>();
+  for (const objective of sorted) {
+    if (!objective.parentId || !ids.has(objective.parentId)) continue;
+    const siblings = childrenOf.get(objective.parentId) ?? [];
+    siblings.push(objective);
+    childrenOf.set(objective.parentId, siblings);
+  }
+
+  const placed = new Set<string>();
+  const build = (objective: HierarchyObjective): ObjectiveTreeNode => {
+    placed.add(objective.id);
+    const children = (childrenOf.get(objective.id) ?? [])
+      .filter((child) => !placed.has(child.id))
+      .map(build);
+    const { createdAt: _createdAt, ...fields } = objective;
+    return { ...fields, children, rollup: rollUp(objective, children) };
+  };
+
+  const roots = sorted.filter((objective) => !objective.parentId || !ids.has(objective.parentId)).map(build);
+  for (const objective of sorted) {
+    if (!placed.has(objective.id)) roots.push(build(objective));
+  }
+
+  return roots;
+}
+
+function rollUp(objective: HierarchyObjective, children: ObjectiveTreeNode[]): ObjectiveTreeRollup {
+  const counts = children.reduce(
+    (total, child) => ({
+      descendants: total.descendants + 1 + child.rollup.descendants,
+      complete: total.complete + (child.status === ObjectiveStatus.COMPLETE ? 1 : 0) + child.rollup.complete,
+      blocked: total.blocked + (child.status === ObjectiveStatus.BLOCKED ? 1 : 0) + child.rollup.blocked,
+    }),
+    { descendants: 0, complete: 0, blocked: 0 },
+  );
+
+  // A finished child without key results still counts as done
+  const measured = children.flatMap((child) => {
+    const progress = child.rollup.progress ?? (child.status === ObjectiveStatus.COMPLETE ? 1 : null);
+    return progress === null ? [] : [progress];
+  });
+  const own = objective.progress === null ? [] : [objective.progress];
+
+  return { ...counts, progress: averageProgress([...own, ...measured]) };
+}
+
+function levelRank(objective: HierarchyObjective): number {
+  return objective.level ? LEVEL_ORDER[objective.level] : Object.keys(LEVEL_ORDER).length;
+}
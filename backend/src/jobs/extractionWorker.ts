@@ -0,0 +1,156 @@
+import { ExtractionJobKind, ExtractionJobStatus, type Prisma } from '@prisma/client';
+import {
+  claimNextExtractionJob,
+  completeExtractionJob,
+  failExtractionJob,
+  recoverInterruptedExtractionJobs,
+  setExtractionJobStatus,
+  touchExtractionJob,
+  type ExtractionJobDTO,
+} from '../database.js';
+import { config } from '../config.js';
+import { backfillObjectiveEmbeddings } from '../related/embeddings.js';
+import { runExtractionPipeline, type ExtractionStage } from '../extraction/pipeline.js';
+import { buildReextractionProposal } from '../extraction/reextraction.js';
+import { formatExtractionResult } from '../routes/formatters.js';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_ATTEMPTS = 3;
+// A job whose worker has not sent a heartbeat for this long is treated as abandoned
+const JOB_LEASE_MS = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+let started = false;
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let lastRecoveryAt = 0;
+
+/**
+ * Starts the in-process worker that drains `extraction_jobs`. Postgres is the
+ * queue: jobs survive restarts and are claimed with row locks, so no external
+ * broker is needed.
+ */
+export async function startExtractionWorker(): Promise<void> {
+  if (started) return;
+  started = true;
+
+  await recoverAbandonedJobs();
+  scheduleNextPoll(0);
+}
+
+/** Wakes the worker immediately instead of waiting for the next poll. */
+export function notifyExtractionWorker(): void {
+  if (!started) return;
+  scheduleNextPoll(0);
+}
+
+function scheduleNextPoll(delay: number) {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    void drainQueue();
+  }, delay);
+}
+
+async function drainQueue() {
+  if (draining) return;
+  draining = true;
+
+  try {
+    // Other backend processes may share the queue, so abandoned jobs are looked for on a timer, not just at startup
+    if (Date.now() - lastRecoveryAt >= RECOVERY_INTERVAL_MS) await recoverAbandonedJobs();
+
+    let job = await claimNextExtractionJob();
+    while (job) {
+      await processJob(job);
+      job = await claimNextExtractionJob();
+    }
+
+    // Idle polls embed one batch of the backlog so requests only ever generate a few vectors themselves
+    if (config.EMBEDDINGS_ENABLED) await backfillEmbeddings();
+  } catch (error) {
+    console.error('❌ [JOBS] Extraction worker poll failed:', error);
+  } finally {
+    draining = false;
+    if (!pollTimer) scheduleNextPoll(POLL_INTERVAL_MS);
+  }
+}
+
+async function recoverAbandonedJobs() {
+  lastRecoveryAt = Date.now();
+  try {
+    const { requeued, failed } = await recoverInterruptedExtractionJobs(MAX_ATTEMPTS, JOB_LEASE_MS);
+    if (requeued > 0 || failed > 0) {
+      console.log(`♻️ [JOBS] Recovered interrupted extraction jobs: ${requeued} requeued, ${failed} failed`);
+    }
+  } catch (error) {
+    console.warn('⚠️ [JOBS] Failed to recover interrupted extraction jobs:', error);
+  }
+}
+
+async function processJob(job: ExtractionJobDTO) {
+  const heartbeat = setInterval(() => {
+    touchExtractionJob(job.id).catch((error) => {
+      console.warn(`⚠️ [JOBS] Heartbeat for job ${job.id} failed:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runJob(job);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function runJob(job: ExtractionJobDTO) {
+  const startTime = Date.now();
+  console.log(`\n🚀 [JOBS] Processing ${job.kind.toLowerCase()} job ${job.id} (attempt ${job.attempts})`);
+
+  const onStage = async (stage: ExtractionStage) => {
+    // Claiming already moved the job into EXTRACTING
+    if (stage !== ExtractionJobStatus.EXTRACTING) {
+      await setExtractionJobStatus(job.id, stage);
+    }
+  };
+
+  try {
+    if (job.kind === ExtractionJobKind.REEXTRACT) {
+      if (!job.entryId) throw new Error('Re-extraction job is missing its entry');
+      const proposal = await buildReextractionProposal(job.entryId, job.model, onStage);
+      await completeExtractionJob(job.id, toJsonValue(proposal));
+      console.log(`🎉 [JOBS] Job ${job.id} prepared a re-extraction proposal in ${Date.now() - startTime}ms`);
+      return;
+    }
+
+    const result = await runExtractionPipeline(
+      {
+        text: job.text,
+        title: job.title,
+        sourceLabel: job.sourceLabel,
+        format: job.sourceFormat,
+        tags: job.tags,
+      },
+      onStage,
+    );
+
+    await completeExtractionJob(job.id, toJsonValue(formatExtractionResult(result)));
+    console.log(`🎉 [JOBS] Job ${job.id} stored ${result.objectives.length} objectives in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    console.error(`❌ [JOBS] Job ${job.id} failed after ${Date.now() - startTime}ms:`, error);
+    await failExtractionJob(job.id, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+async function backfillEmbeddings() {
+  try {
+    await backfillObjectiveEmbeddings();
+  } catch (error) {
+    console.warn('⚠️ [JOBS] Embedding backfill failed, retrying on the next poll:', error);
+  }
+}
+
+// Round-trip through JSON so dates and nested DTOs become plain JSON values
+function toJsonValue(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
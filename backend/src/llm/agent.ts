@@ -1,5 +1,5 @@
 import type { ObjectiveSummaryForPrompt } from '../database.js';
-import { ollamaClient } from './ollamaClient.js';
+import { llmProvider, type GenerateOptions } from './provider.js';
 import { jsonrepair } from 'jsonrepair';
 
 const GRAPH_SYSTEM_PROMPT = `You are Visium, an elite strategy intelligence agent. Turn raw notes into a coherent, connected strategic knowledge graph. Only capture well-formed objectives that describe real initiatives, measurable outcomes, or critical dependencies. Reject fluffy ideas like "I have a startup idea" or generic aspirations.
@@ -11,6 +11,8 @@ Return strict JSON:
     {
       "key": string,                  // Unique reference like OBJ_A
       "statement": string,            // 12-40 words, self-contained objective
+      "level": "VISION"|"GOAL"|"KEY_RESULT"|"INITIATIVE"|"TASK",
+      "parentKey": string | null,     // key or existing:<id> of the objective this one rolls up to
       "context": string | null,       // Why this matters / supporting detail
       "category": string | null,      // e.g. Growth, Product, Revenue, Operations
       "timeframe": string | null,     // e.g. Q2 2025, 12 weeks, ASAP
@@ -39,16 +41,37 @@ Rules:
 - Produce between 2 and 8 objectives unless fewer genuinely exist.
 - Each objective must survive in isolation; include differentiating context.
 - Prefer linking new objectives to existing ones when relevant (use existing:<id>).
+- Classify "level": VISION for long-range direction, GOAL for an outcome to reach, KEY_RESULT for a measurable result that proves a goal, INITIATIVE for a project that moves a key result, TASK for a concrete piece of work.
+- Set "parentKey" only when the notes make the roll-up explicit, and only to an objective one level up or higher; never point an objective at itself.
 - Only create relationships with clear causal links. Avoid noisy or redundant edges.
 - Derive metrics/tags from the text; do not fabricate data.
 - Use source excerpts sparingly (≤ 220 chars) to justify non-obvious claims.
 - Never invent owners or timeframes if the source lacks them.`;
 
+const SPLIT_SYSTEM_PROMPT = `You are Visium, an elite strategy intelligence agent. A stored objective bundles several distinct initiatives into one statement. Split it into separate objectives that can each be owned, tracked and completed on their own.
+
+Return strict JSON:
+{
+  "parts": [
+    {
+      "statement": string,            // 12-40 words, self-contained objective
+      "context": string | null        // Supporting detail from the original that belongs to this part
+    }
+  ]
+}
+
+Rules:
+- Produce between 2 and 6 parts; return a single part only if the objective is genuinely indivisible.
+- Keep the original wording, owners and timeframes; do not invent new scope.
+- Every part must make sense without reading the others.`;
+
 const BRAIN_SYSTEM_PROMPT = `You are Visium's strategy brain. Synthesise the institutional knowledge graph into decisive, executive-ready guidance. Base every statement on the provided context. Identify momentum, gaps, and next bets without speculation.`;
 
 export interface AgentObjective {
   key: string;
   statement: string;
+  level?: string | null;
+  parentKey?: string | null;
   context?: string | null;
   category?: string | null;
   timeframe?: string | null;
@@ -77,9 +100,21 @@ export interface AgentGraphExtraction {
   relationships: AgentRelationship[];
 }
 
-interface ExtractObjectiveOptions {
+export interface AgentSplitPart {
+  statement: string;
+  context?: string | null;
+}
+
+export interface TranscriptPromptContext {
+  speakers: string[];
+}
+
+export interface ExtractObjectiveOptions {
   title: string | null;
   existingObjectives: ObjectiveSummaryForPrompt[];
+  transcript?: TranscriptPromptContext | null;
+  // Model override for this extraction; defaults to the provider's configured model
+  model?: string | null;
 }
 
 export async function extractObjectiveGraph(
@@ -89,8 +124,9 @@ export async function extractObjectiveGraph(
   console.log('🤖 [AGENT] Building graph extraction prompt...');
 
   const existingSection = buildExistingObjectivesSection(options.existingObjectives);
+  const transcriptSection = options.transcript ? `\n\n${buildTranscriptSection(options.transcript)}` : '';
   const userPrompt = `Existing objectives for reference and linking (use the provided IDs when appropriate):
-${existingSection}
+${existingSection}${transcriptSection}
 
 Raw intake:
 <<<SOURCE
@@ -100,7 +136,7 @@ ${raw}
 Respond with JSON exactly matching the declared schema. Do not add commentary.`;
 
   const fullPrompt = `${GRAPH_SYSTEM_PROMPT}\n\n${userPrompt}`;
-  const rawResponse = await callOllama(fullPrompt);
+  const rawResponse = await callLLM(fullPrompt, { model: options.model });
 
   const parsed = parseAgentResponse(rawResponse);
   const objectives = parsed.objectives ?? [];
@@ -123,17 +159,43 @@ Respond with JSON exactly matching the declared schema. Do not add commentary.`;
   } satisfies AgentGraphExtraction;
 }
 
+export async function suggestObjectiveSplit(objective: {
+  text: string;
+  context: string | null;
+}): Promise<AgentSplitPart[]> {
+  console.log('✂️ [AGENT] Requesting split suggestions...');
+  const userPrompt = `Objective to split:
+<<<OBJECTIVE
+${objective.text}${objective.context ? `\nContext: ${objective.context}` : ''}
+>>>
+
+Respond with JSON exactly matching the declared schema. Do not add commentary.`;
+
+  const rawResponse = await callLLM(`${SPLIT_SYSTEM_PROMPT}\n\n${userPrompt}`);
+  const parsed = parseAgentResponse<{ parts?: AgentSplitPart[] }>(rawResponse);
+
+  return (parsed.parts ?? []).filter((part) => typeof part?.statement === 'string' && part.statement.trim().length > 0);
+}
+
 export async function generateBrainInsight(prompt: string): Promise<string> {
   console.log('🧠 [BRAIN] Generating strategic insight...');
-  const fullPrompt = `${BRAIN_SYSTEM_PROMPT}\n\nContext:\n${prompt}\n\nAnswer with short paragraphs followed by bullet suggestions when relevant.`;
-  const rawResponse = await callOllama(fullPrompt);
+  const rawResponse = await callLLM(buildBrainPrompt(prompt));
   return rawResponse.trim();
 }
 
-async function callOllama(prompt: string): Promise<string> {
-  console.log('🤖 [AGENT] Prompt prepared, calling Ollama...');
+export async function* streamBrainInsight(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+  console.log('🧠 [BRAIN] Streaming strategic insight...');
+  yield* llmProvider.stream(buildBrainPrompt(prompt), signal);
+}
+
+function buildBrainPrompt(prompt: string): string {
+  return `${BRAIN_SYSTEM_PROMPT}\n\nContext:\n${prompt}\n\nAnswer with short paragraphs followed by bullet suggestions when relevant.`;
+}
+
+async function callLLM(prompt: string, options: GenerateOptions = {}): Promise<string> {
+  console.log(`🤖 [AGENT] Prompt prepared, calling ${llmProvider.name}...`);
   console.log('🤖 [AGENT] Prompt length:', prompt.length);
-  return await ollamaClient.generate(prompt);
+  return await llmProvider.generate(prompt, options);
 }
 
 function buildExistingObjectivesSection(existingObjectives: ObjectiveSummaryForPrompt[]): string {
@@ -151,13 +213,21 @@ function buildExistingObjectivesSection(existingObjectives: ObjectiveSummaryForP
     .join('\n');
 }
 
+function buildTranscriptSection(transcript: TranscriptPromptContext): string {
+  const speakers = transcript.speakers.length > 0 ? transcript.speakers.join(', ') : '(not labelled)';
+  return `The intake is a meeting transcript. Each turn reads "[HH:MM:SS] Speaker: text".
+Speakers: ${speakers}
+- Set "owner" to the speaker who committed to the objective or was assigned it in the meeting; leave it null if nobody did.
+- Always set "sourceExcerpt" to the verbatim turn (shortened if needed) that backs the objective, starting with its [HH:MM:SS] timestamp and speaker.`;
+}
+
 interface ParsedAgentResponse {
   title?: string | null;
   objectives?: AgentObjective[];
   relationships?: AgentRelationship[];
 }
 
-function parseAgentResponse(response: string): ParsedAgentResponse {
+function parseAgentResponse<T extends object = ParsedAgentResponse>(response: string): T {
   console.log('🤖 [AGENT] Raw response received. Sample:', response.substring(0, 200));
   let jsonString = response.trim();
 
@@ -180,7 +250,7 @@ function parseAgentResponse(response: string): ParsedAgentResponse {
       throw new Error('Parsed response is not an object');
     }
 
-    return parsed as ParsedAgentResponse;
+    return parsed as T;
   } catch (error) {
     console.warn('❌ [AGENT] Initial JSON parse failed, attempting repair...');
     try {
@@ -191,7 +261,7 @@ function parseAgentResponse(response: string): ParsedAgentResponse {
       }
 
       console.warn('✅ [AGENT] JSON repair succeeded.');
-      return parsed as ParsedAgentResponse;
+      return parsed as T;
     } catch (repairError) {
       console.error('❌ [AGENT] Failed to parse JSON response');
       console.error('❌ [AGENT] JSON input:', jsonString);
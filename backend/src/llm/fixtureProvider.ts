@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import type { LLMProvider } from './provider.js';
+
+interface FixtureFile {
+  // Returned verbatim (objects are serialised) for graph extraction prompts
+  extraction?: unknown;
+  // Returned verbatim for every other prompt
+  brain?: string;
+}
+
+const SOURCE_PATTERN = /<<<SOURCE\n([\s\S]*?)\n>>>/;
+const OBJECTIVE_PATTERN = /<<<OBJECTIVE\n([^\n]*)/;
+
+// Deterministic provider for tests and offline development. Without a fixture file it
+// derives objectives from the first sentences of the raw intake.
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  readonly modelName = 'fixture';
+  private fixture: FixtureFile;
+
+  constructor(fixturePath?: string) {
+    this.fixture = fixturePath ? (JSON.parse(readFileSync(fixturePath, 'utf8')) as FixtureFile) : {};
+  }
+
+  async generate(prompt: string): Promise<string> {
+    console.log(`🧪 [FIXTURE] Answering prompt of ${prompt.length} characters`);
+    const objective = prompt.match(OBJECTIVE_PATTERN)?.[1];
+    if (objective !== undefined) {
+      return JSON.stringify(buildSplit(objective));
+    }
+
+    const source = prompt.match(SOURCE_PATTERN)?.[1];
+
+    if (source === undefined) {
+      return this.fixture.brain ?? 'Fixture answer: the knowledge graph was consulted.';
+    }
+
+    if (this.fixture.extraction !== undefined) {
+      return typeof this.fixture.extraction === 'string'
+        ? this.fixture.extraction
+        : JSON.stringify(this.fixture.extraction);
+    }
+
+    return JSON.stringify(buildExtraction(source));
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const answer = await this.generate(prompt);
+    for (const token of answer.split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      yield token;
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+function buildExtraction(source: string) {
+  const sentences = source
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.split(/\s+/).length >= 4)
+    .slice(0, 3);
+
+  return {
+    title: null,
+    objectives: sentences.map((sentence, index) => ({
+      key: `OBJ_${String.fromCharCode(65 + index)}`,
+      statement: sentence,
+      context: null,
+      category: null,
+      timeframe: null,
+      status: 'PROPOSED',
+      priority: 'MEDIUM',
+      confidence: null,
+      owner: null,
+      metrics: [],
+      tags: [],
+      sourceLabel: null,
+      sourceExcerpt: sentence.slice(0, 220),
+    })),
+    relationships: [],
+  };
+}
+
+// Splits on conjunctions and semicolons, e.g. "launch X and hire Y"
+function buildSplit(objective: string) {
+  const parts = objective
+    .split(/;|,?\s+and\s+/i)
+    .map((part) => part.trim().replace(/[.]$/, ''))
+    .filter((part) => part.length > 0);
+
+  return { parts: parts.map((statement) => ({ statement, context: null })) };
+}
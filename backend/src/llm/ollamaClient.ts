@@ -1,4 +1,6 @@
 import { config } from '../config.js';
+import type { GenerateOptions, LLMProvider } from './provider.js';
+import { readLines } from './streaming.js';
 
 interface OllamaResponse {
   model: string;
@@ -13,18 +15,34 @@ interface OllamaRequest {
   stream: boolean;
 }
 
-export class OllamaClient {
+interface OllamaEmbeddingResponse {
+  embedding: number[];
+}
+
+export class OllamaClient implements LLMProvider {
+  readonly name = 'ollama';
   private baseUrl: string;
   private model: string;
+  private embeddingModel: string;
 
   constructor() {
     this.baseUrl = config.OLLAMA_URL;
     this.model = config.OLLAMA_MODEL;
+    this.embeddingModel = config.OLLAMA_EMBEDDING_MODEL;
   }
 
-  async generate(prompt: string): Promise<string> {
+  get modelName(): string {
+    return this.model;
+  }
+
+  get embeddingModelName(): string {
+    return this.embeddingModel;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const model = options.model || this.model;
     console.log(`🦙 [OLLAMA] Making request to ${this.baseUrl}/api/generate`);
-    console.log(`🦙 [OLLAMA] Using model: ${this.model}`);
+    console.log(`🦙 [OLLAMA] Using model: ${model}`);
     console.log(`🦙 [OLLAMA] Prompt length: ${prompt.length} characters`);
     
     const requestStartTime = Date.now();
@@ -36,7 +54,7 @@ export class OllamaClient {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: this.model,
+          model,
           prompt,
           stream: false,
         } as OllamaRequest),
@@ -70,6 +88,75 @@ export class OllamaClient {
     }
   }
 
+  async *stream(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+    console.log(`🦙 [OLLAMA] Streaming request to ${this.baseUrl}/api/generate (${this.model})`);
+
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        prompt,
+        stream: true,
+      } as OllamaRequest),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      console.error('🦙 [OLLAMA] Streaming error details:', errorText);
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    for await (const line of readLines(response.body)) {
+      const chunk = JSON.parse(line) as Partial<OllamaResponse> & { error?: string };
+      if (chunk.error) {
+        throw new Error(`Ollama stream error: ${chunk.error}`);
+      }
+      if (chunk.response) {
+        yield chunk.response;
+      }
+      if (chunk.done) {
+        return;
+      }
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    console.log(`🦙 [OLLAMA] Requesting embedding from ${this.baseUrl}/api/embeddings (${this.embeddingModel})`);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.embeddingModel,
+          prompt: text,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error response');
+        console.error('🦙 [OLLAMA] Embedding error details:', errorText);
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as OllamaEmbeddingResponse;
+      if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+        throw new Error('Ollama returned an empty embedding');
+      }
+
+      return data.embedding;
+    } catch (error) {
+      console.error('❌ [OLLAMA] Embedding request failed:', error);
+      throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/api/tags`);
@@ -0,0 +1,127 @@
+import { config } from '../config.js';
+import type { GenerateOptions, LLMProvider } from './provider.js';
+import { readLines } from './streaming.js';
+
+interface ChatCompletionChunk {
+  choices: Array<{
+    delta?: { content?: string | null };
+  }>;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+}
+
+// Talks to any server exposing the OpenAI chat completions API
+// (llama.cpp server, vLLM, LM Studio, ...).
+export class OpenAICompatibleClient implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private baseUrl: string;
+  private model: string;
+  private apiKey: string | undefined;
+
+  constructor() {
+    this.baseUrl = config.OPENAI_COMPAT_URL.replace(/\/+$/, '');
+    this.model = config.OPENAI_COMPAT_MODEL;
+    this.apiKey = config.OPENAI_COMPAT_API_KEY;
+  }
+
+  get modelName(): string {
+    return this.model;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const model = options.model || this.model;
+    console.log(`🔌 [OPENAI-COMPAT] Making request to ${this.baseUrl}/chat/completions`);
+    console.log(`🔌 [OPENAI-COMPAT] Using model: ${model}`);
+    console.log(`🔌 [OPENAI-COMPAT] Prompt length: ${prompt.length} characters`);
+
+    const requestStartTime = Date.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          stream: false,
+        }),
+      });
+
+      console.log(`🔌 [OPENAI-COMPAT] Request completed in ${Date.now() - requestStartTime}ms`);
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error response');
+        console.error('🔌 [OPENAI-COMPAT] Error details:', errorText);
+        throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Response did not contain a completion message');
+      }
+
+      console.log(`🔌 [OPENAI-COMPAT] Response received, length: ${content.length} characters`);
+      return content.trim();
+    } catch (error) {
+      console.error(`❌ [OPENAI-COMPAT] Error after ${Date.now() - requestStartTime}ms:`, error);
+      throw new Error(`Failed to generate response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+    console.log(`🔌 [OPENAI-COMPAT] Streaming request to ${this.baseUrl}/chat/completions (${this.model})`);
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      console.error('🔌 [OPENAI-COMPAT] Streaming error details:', errorText);
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+    }
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,32 @@
+import { config } from '../config.js';
+import { FixtureProvider } from './fixtureProvider.js';
+import { ollamaClient } from './ollamaClient.js';
+import { OpenAICompatibleClient } from './openAICompatibleClient.js';
+
+export interface GenerateOptions {
+  // Overrides the configured model for a single request (e.g. re-extracting with a stronger model)
+  model?: string | null;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly modelName: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Yields response fragments as the backend produces them; aborting the signal stops generation
+  stream(prompt: string, signal?: AbortSignal): AsyncGenerator<string>;
+  healthCheck(): Promise<boolean>;
+}
+
+export function createLLMProvider(provider = config.LLM_PROVIDER): LLMProvider {
+  switch (provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleClient();
+    case 'fixture':
+      return new FixtureProvider(config.LLM_FIXTURE_PATH);
+    case 'ollama':
+    default:
+      return ollamaClient;
+  }
+}
+
+export const llmProvider = createLLMProvider();
@@ -1,26 +1,104 @@
-// Placeholder for future embedding-based similarity
-// This will be implemented when EMBEDDINGS_ENABLED=true
+import { config } from '../config.js';
+import { ollamaClient } from '../llm/ollamaClient.js';
+import { getObjectiveEmbeddings, listObjectivesMissingEmbeddings, saveObjectiveEmbedding } from '../database.js';
 
 export interface EmbeddingProvider {
+  readonly model: string;
   generateEmbedding(text: string): Promise<number[]>;
   computeSimilarity(embedding1: number[], embedding2: number[]): number;
 }
 
-// TODO: Implement embedding providers (e.g., OpenAI, local models, etc.)
-export class LocalEmbeddingProvider implements EmbeddingProvider {
+export interface EmbeddableObjective {
+  id: string;
+  text: string;
+  context?: string | null;
+  metrics?: string[];
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  get model(): string {
+    return ollamaClient.embeddingModelName;
+  }
+
   async generateEmbedding(text: string): Promise<number[]> {
-    throw new Error('Local embeddings not yet implemented');
+    return await ollamaClient.embed(text);
   }
-  
+
   computeSimilarity(embedding1: number[], embedding2: number[]): number {
-    // Cosine similarity
-    const dotProduct = embedding1.reduce((sum, a, i) => sum + a * embedding2[i], 0);
-    const magnitude1 = Math.sqrt(embedding1.reduce((sum, a) => sum + a * a, 0));
-    const magnitude2 = Math.sqrt(embedding2.reduce((sum, a) => sum + a * a, 0));
-    
-    if (magnitude1 === 0 || magnitude2 === 0) return 0;
-    return dotProduct / (magnitude1 * magnitude2);
+    return cosineSimilarity(embedding1, embedding2);
+  }
+}
+
+export const embeddingProvider: EmbeddingProvider = new OllamaEmbeddingProvider();
+
+export function cosineSimilarity(embedding1: number[], embedding2: number[]): number {
+  if (embedding1.length === 0 || embedding1.length !== embedding2.length) return 0;
+
+  const dotProduct = embedding1.reduce((sum, a, i) => sum + a * embedding2[i], 0);
+  const magnitude1 = Math.sqrt(embedding1.reduce((sum, a) => sum + a * a, 0));
+  const magnitude2 = Math.sqrt(embedding2.reduce((sum, a) => sum + a * a, 0));
+
+  if (magnitude1 === 0 || magnitude2 === 0) return 0;
+  return dotProduct / (magnitude1 * magnitude2);
+}
+
+export function buildEmbeddingInput(objective: Omit<EmbeddableObjective, 'id'>): string {
+  const parts = [objective.text.trim()];
+  if (objective.context?.trim()) parts.push(objective.context.trim());
+  if (objective.metrics && objective.metrics.length > 0) parts.push(`Metrics: ${objective.metrics.join('; ')}`);
+  return parts.join('\n');
+}
+
+// Returns vectors for the given objectives, reusing stored vectors when they were produced by
+// the current model and generating (and persisting) at most `limit` of the rest. Objectives past
+// the limit are left out of the map and picked up by `backfillObjectiveEmbeddings` in the worker,
+// so a request never waits on embedding the whole graph.
+export async function ensureObjectiveEmbeddings(
+  objectives: EmbeddableObjective[],
+  limit = config.EMBEDDING_BATCH_SIZE,
+): Promise<Map<string, number[]>> {
+  const vectors = new Map<string, number[]>();
+  if (objectives.length === 0) return vectors;
+
+  const stored = await getObjectiveEmbeddings(objectives.map((objective) => objective.id));
+  const model = embeddingProvider.model;
+  let generated = 0;
+  let deferred = 0;
+
+  for (const objective of objectives) {
+    const existing = stored.get(objective.id);
+    if (existing && existing.embeddingModel === model && existing.embedding.length > 0) {
+      vectors.set(objective.id, existing.embedding);
+      continue;
+    }
+
+    if (generated >= limit) {
+      deferred += 1;
+      continue;
+    }
+
+    const embedding = await embeddingProvider.generateEmbedding(buildEmbeddingInput(objective));
+    await saveObjectiveEmbedding(objective.id, embedding, model);
+    vectors.set(objective.id, embedding);
+    generated += 1;
   }
+
+  console.log(
+    `🔗 [EMBEDDINGS] Reused ${vectors.size - generated} stored vectors, generated ${generated}, deferred ${deferred}`,
+  );
+  return vectors;
 }
 
-export const embeddingProvider = new LocalEmbeddingProvider();
\ No newline at end of file
+/** Embeds one batch of objectives that have no vector from the current model. Returns how many were embedded. */
+export async function backfillObjectiveEmbeddings(batchSize = config.EMBEDDING_BATCH_SIZE): Promise<number> {
+  const model = embeddingProvider.model;
+  const pending = await listObjectivesMissingEmbeddings(model, batchSize);
+
+  for (const objective of pending) {
+    const embedding = await embeddingProvider.generateEmbedding(buildEmbeddingInput(objective));
+    await saveObjectiveEmbedding(objective.id, embedding, model);
+  }
+
+  if (pending.length > 0) console.log(`🔗 [EMBEDDINGS] Backfilled ${pending.length} stored vectors`);
+  return pending.length;
+}
@@ -1,20 +1,55 @@
+import { ObjectiveRelationshipType } from '@prisma/client';
 import { config } from '../config.js';
+import {
+  buildEmbeddingInput,
+  embeddingProvider,
+  ensureObjectiveEmbeddings,
+  type EmbeddableObjective,
+} from './embeddings.js';
 
-interface ObjectiveWithScore {
+// Cosine similarity below this is treated as unrelated for typical sentence embedding models
+const EMBEDDING_SIMILARITY_THRESHOLD = 0.55;
+// Search queries are short, so they are held to a looser bar than objective-to-objective matches
+const SEARCH_SIMILARITY_THRESHOLD = 0.35;
+
+export interface RelatedObjective {
   id: string;
   text: string;
   score: number;
+  matchedTerms: string[];
+}
+
+export interface ObjectiveSearchHit {
+  id: string;
+  score: number;
+}
+
+export interface ObjectiveSearchRanking {
+  mode: 'embedding' | 'keyword';
+  hits: ObjectiveSearchHit[];
 }
 
-interface RelatedObjective {
+export interface DuplicateMatch {
   id: string;
   text: string;
+  score: number;
+  mode: 'embedding' | 'keyword';
+}
+
+export interface SuggestedRelationship {
+  fromId: string;
+  toId: string;
+  toText: string;
+  type: ObjectiveRelationshipType;
+  score: number;
+  matchedTerms: string[];
 }
 
 export async function findRelatedObjectives(
-  newObjectiveText: string,
-  existingObjectives: Array<{ id: string; text: string }>
+  newObjective: Omit<EmbeddableObjective, 'id'>,
+  existingObjectives: EmbeddableObjective[]
 ): Promise<RelatedObjective[]> {
+  const newObjectiveText = newObjective.text;
   console.log(`🔗 [RELATED] Finding related objectives for: "${newObjectiveText}"`);
   console.log(`🔗 [RELATED] Searching among ${existingObjectives.length} existing objectives`);
   
@@ -25,7 +60,7 @@ export async function findRelatedObjectives(
 
   if (config.EMBEDDINGS_ENABLED) {
     console.log('🔗 [RELATED] Using embedding-based similarity');
-    return findRelatedByEmbeddings(newObjectiveText, existingObjectives);
+    return findRelatedByEmbeddings(newObjective, existingObjectives);
   } else {
     console.log('🔗 [RELATED] Using keyword-based similarity');
     return findRelatedByKeywords(newObjectiveText, existingObjectives);
@@ -33,23 +68,47 @@ export async function findRelatedObjectives(
 }
 
 async function findRelatedByEmbeddings(
-  newObjectiveText: string,
-  existingObjectives: Array<{ id: string; text: string }>
+  newObjective: Omit<EmbeddableObjective, 'id'>,
+  existingObjectives: EmbeddableObjective[]
 ): Promise<RelatedObjective[]> {
-  // TODO: Implement embedding-based similarity when EMBEDDINGS_ENABLED=true
-  // For now, fall back to keyword matching
-  console.log('Embeddings not yet implemented, falling back to keyword matching');
-  return findRelatedByKeywords(newObjectiveText, existingObjectives);
+  const newObjectiveText = newObjective.text;
+  try {
+    // Embedded the same way as the stored vectors so context and metrics weigh in on both sides
+    const queryEmbedding = await embeddingProvider.generateEmbedding(buildEmbeddingInput(newObjective));
+    const vectors = await ensureObjectiveEmbeddings(existingObjectives);
+    const newWords = extractWords(newObjectiveText);
+
+    const scored: RelatedObjective[] = existingObjectives.map(obj => {
+      const vector = vectors.get(obj.id);
+      return {
+        id: obj.id,
+        text: obj.text,
+        score: vector ? embeddingProvider.computeSimilarity(queryEmbedding, vector) : 0,
+        matchedTerms: [...newWords].filter(word => extractWords(obj.text).has(word)),
+      };
+    });
+
+    const related = scored
+      .sort((a, b) => b.score - a.score)
+      .filter(obj => obj.score >= EMBEDDING_SIMILARITY_THRESHOLD)
+      .slice(0, 5);
+
+    console.log(`🔗 [EMBEDDINGS] Selected ${related.length} related objectives`);
+    return related;
+  } catch (error) {
+    console.warn('⚠️ [EMBEDDINGS] Embedding similarity failed, falling back to keyword matching:', error);
+    return findRelatedByKeywords(newObjectiveText, existingObjectives);
+  }
 }
 
 function findRelatedByKeywords(
   newObjectiveText: string,
-  existingObjectives: Array<{ id: string; text: string }>
+  existingObjectives: EmbeddableObjective[]
 ): RelatedObjective[] {
   const newWords = extractWords(newObjectiveText);
   console.log(`🔗 [KEYWORDS] Extracted ${newWords.size} unique words from new objective:`, [...newWords]);
   
-  const scored: ObjectiveWithScore[] = existingObjectives.map(obj => {
+  const scored: RelatedObjective[] = existingObjectives.map(obj => {
     const existingWords = extractWords(obj.text);
     const score = calculateKeywordOverlap(newWords, existingWords);
     
@@ -57,6 +116,7 @@ function findRelatedByKeywords(
       id: obj.id,
       text: obj.text,
       score,
+      matchedTerms: [...newWords].filter(word => existingWords.has(word)),
     };
   });
 
@@ -71,16 +131,152 @@ function findRelatedByKeywords(
   const related = scored
     .sort((a, b) => b.score - a.score)
     .filter(obj => obj.score > 0) // Only include objectives with some overlap
-    .slice(0, 5)
-    .map(obj => ({
-      id: obj.id,
-      text: obj.text,
-    }));
+    .slice(0, 5);
 
   console.log(`🔗 [KEYWORDS] Selected ${related.length} related objectives`);
   return related;
 }
 
+// Scores objectives against a free-text query over text, context and metrics.
+export async function rankObjectivesForQuery(
+  query: string,
+  objectives: EmbeddableObjective[]
+): Promise<ObjectiveSearchRanking> {
+  console.log(`🔎 [SEARCH] Ranking ${objectives.length} objectives for: "${query}"`);
+
+  if (config.EMBEDDINGS_ENABLED) {
+    try {
+      const queryEmbedding = await embeddingProvider.generateEmbedding(query);
+      const vectors = await ensureObjectiveEmbeddings(objectives);
+
+      const embedded = objectives
+        .flatMap(obj => {
+          const vector = vectors.get(obj.id);
+          return vector ? [{ id: obj.id, score: embeddingProvider.computeSimilarity(queryEmbedding, vector) }] : [];
+        })
+        .filter(hit => hit.score >= SEARCH_SIMILARITY_THRESHOLD);
+
+      // Objectives still waiting for the background backfill are matched by keywords so they stay findable
+      const pending = rankByKeywords(query, objectives.filter(obj => !vectors.has(obj.id)));
+
+      const hits = [...embedded, ...pending].sort((a, b) => b.score - a.score);
+      return { mode: 'embedding', hits };
+    } catch (error) {
+      console.warn('⚠️ [SEARCH] Embedding search failed, falling back to keyword scoring:', error);
+    }
+  }
+
+  return { mode: 'keyword', hits: rankByKeywords(query, objectives) };
+}
+
+function rankByKeywords(query: string, objectives: EmbeddableObjective[]): ObjectiveSearchHit[] {
+  const queryWords = extractWords(query);
+  return objectives
+    .map(obj => ({
+      id: obj.id,
+      score: calculateKeywordOverlap(queryWords, extractWords(buildEmbeddingInput(obj))),
+    }))
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Ranks links between freshly stored objectives and the rest of the graph, skipping
+// pairs that are already connected in either direction.
+export async function suggestRelationships(
+  newObjectives: EmbeddableObjective[],
+  candidates: EmbeddableObjective[],
+  linkedPairs: Set<string>,
+  perObjective = 3
+): Promise<SuggestedRelationship[]> {
+  const suggestions: SuggestedRelationship[] = [];
+
+  for (const objective of newObjectives) {
+    const pool = candidates.filter(candidate =>
+      candidate.id !== objective.id && !linkedPairs.has(pairKey(objective.id, candidate.id))
+    );
+    const related = await findRelatedObjectives(objective, pool);
+
+    for (const match of related.slice(0, perObjective)) {
+      linkedPairs.add(pairKey(objective.id, match.id));
+      suggestions.push({
+        fromId: objective.id,
+        toId: match.id,
+        toText: match.text,
+        type: ObjectiveRelationshipType.RELATES_TO,
+        score: match.score,
+        matchedTerms: match.matchedTerms,
+      });
+    }
+  }
+
+  return suggestions.sort((a, b) => b.score - a.score);
+}
+
+// Finds existing objectives that restate each new statement closely enough to be the same objective.
+// Keyed by the statement key; statements without a match are left out.
+export async function findPossibleDuplicates(
+  statements: Array<{ key: string } & Omit<EmbeddableObjective, 'id'>>,
+  candidates: EmbeddableObjective[],
+  perStatement = 3
+): Promise<Map<string, DuplicateMatch[]>> {
+  const duplicates = new Map<string, DuplicateMatch[]>();
+  if (statements.length === 0 || candidates.length === 0) return duplicates;
+
+  if (config.EMBEDDINGS_ENABLED) {
+    try {
+      const vectors = await ensureObjectiveEmbeddings(candidates);
+      for (const statement of statements) {
+        const embedding = await embeddingProvider.generateEmbedding(buildEmbeddingInput(statement));
+        const matches = candidates
+          .map(candidate => {
+            const vector = vectors.get(candidate.id);
+            return {
+              id: candidate.id,
+              text: candidate.text,
+              score: vector ? embeddingProvider.computeSimilarity(embedding, vector) : 0,
+              mode: 'embedding' as const,
+            };
+          })
+          .filter(match => match.score >= config.DUPLICATE_EMBEDDING_THRESHOLD)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, perStatement);
+        if (matches.length > 0) duplicates.set(statement.key, matches);
+      }
+      return duplicates;
+    } catch (error) {
+      console.warn('⚠️ [DUPLICATES] Embedding comparison failed, falling back to keyword similarity:', error);
+      duplicates.clear();
+    }
+  }
+
+  const candidateWords = candidates.map(candidate => ({ candidate, words: extractWords(candidate.text) }));
+  for (const statement of statements) {
+    const words = extractWords(statement.text);
+    const matches = candidateWords
+      .map(({ candidate, words: other }) => ({
+        id: candidate.id,
+        text: candidate.text,
+        score: calculateKeywordOverlap(words, other),
+        mode: 'keyword' as const,
+      }))
+      .filter(match => match.score >= config.DUPLICATE_KEYWORD_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, perStatement);
+    if (matches.length > 0) duplicates.set(statement.key, matches);
+  }
+
+  return duplicates;
+}
+
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+// Keyword Jaccard similarity between two statements, 0-1
+export function textSimilarity(a: string, b: string): number {
+  return calculateKeywordOverlap(extractWords(a), extractWords(b));
+}
+
 function extractWords(text: string): Set<string> {
   // Convert to lowercase, remove punctuation, split on whitespace
   const words = text
@@ -0,0 +1,12 @@
+import type { Request } from 'express';
+import type { AuditContext } from '../database.js';
+
+// There is no authentication yet, so clients identify the person making a change with this header
+const ACTOR_HEADER = 'x-actor';
+const ANONYMOUS_ACTOR = 'anonymous';
+const MAX_ACTOR_LENGTH = 120;
+
+export function requestAudit(req: Request, reason: string): AuditContext {
+  const actor = req.get(ACTOR_HEADER)?.trim().slice(0, MAX_ACTOR_LENGTH);
+  return { actor: actor || ANONYMOUS_ACTOR, reason };
+}
@@ -0,0 +1,81 @@
+import type { Response } from 'express';
+import { getKnowledgeGraphSnapshot } from '../database.js';
+import { streamBrainInsight } from '../llm/agent.js';
+import {
+  EMPTY_GRAPH_ANSWER,
+  prepareBrainContext,
+  resolveCitations,
+  type BrainAnswer,
+  type BrainTurn,
+} from '../brain/brain.js';
+import { formatBrainAnswer } from './formatters.js';
+
+interface StreamBrainAnswerOptions {
+  history?: BrainTurn[];
+  // Runs before the `done` event; its return value is merged into that event's payload
+  onComplete?: (result: BrainAnswer) => Promise<Record<string, unknown> | void>;
+}
+
+// Streams a Brain answer as Server-Sent Events: `meta` (retrieved context), `token`
+// (answer fragments), then `done` (full answer with citations) or `error`.
+export async function streamBrainAnswer(
+  question: string,
+  res: Response,
+  options: StreamBrainAnswerOptions = {},
+): Promise<void> {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('🧠 [BRAIN] Client disconnected, cancelling generation');
+      controller.abort();
+    }
+  });
+
+  try {
+    const snapshot = await getKnowledgeGraphSnapshot();
+    let result: BrainAnswer;
+
+    if (snapshot.objectives.length === 0) {
+      sendSseEvent(res, 'meta', { totalObjectives: 0, totalRelationships: 0, contextObjectives: [] });
+      sendSseEvent(res, 'token', { text: EMPTY_GRAPH_ANSWER });
+      result = { answer: EMPTY_GRAPH_ANSWER, contextObjectives: [], citations: [], citedRelationships: [] };
+    } else {
+      const { context, used } = await prepareBrainContext(question, snapshot, options.history);
+      sendSseEvent(res, 'meta', {
+        totalObjectives: snapshot.objectives.length,
+        totalRelationships: snapshot.relationships.length,
+        contextObjectives: used,
+      });
+
+      let answer = '';
+      for await (const token of streamBrainInsight(context.prompt, controller.signal)) {
+        answer += token;
+        sendSseEvent(res, 'token', { text: token });
+      }
+
+      result = resolveCitations(answer, context, used);
+    }
+
+    const extra = options.onComplete ? await options.onComplete(result) : undefined;
+    sendSseEvent(res, 'done', { ...formatBrainAnswer(result), ...(extra ?? {}) });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    console.error('Error streaming brain response:', error);
+    sendSseEvent(res, 'error', {
+      error: 'Failed to produce answer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    res.end();
+  }
+}
+
+function sendSseEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -0,0 +1,190 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import {
+  appendConversationTurn,
+  createConversation,
+  deleteConversationById,
+  getConversationById,
+  getKnowledgeGraphSnapshot,
+  listConversations,
+  type ConversationDTO,
+} from '../database.js';
+import { generateBrainResponse, type BrainAnswer, type BrainTurn } from '../brain/brain.js';
+import { streamBrainAnswer } from './brainStream.js';
+import { formatBrainAnswer } from './formatters.js';
+
+export const conversationsRouter = Router();
+
+const listConversationsSchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50)),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0)),
+});
+
+const createConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+const conversationMessageSchema = z.object({
+  question: z.string().min(5, 'Ask a complete question'),
+});
+
+// GET /api/conversations
+conversationsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = listConversationsSchema.parse(req.query);
+    const conversations = await listConversations(limit, offset);
+
+    return res.json({ conversations, total: conversations.length, limit, offset });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error listing conversations:', error);
+    return res.status(500).json({
+      error: 'Failed to list conversations',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/conversations
+conversationsRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { title } = createConversationSchema.parse(req.body ?? {});
+    const conversation = await createConversation(title ?? 'New conversation');
+
+    return res.status(201).json({ conversation });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error creating conversation:', error);
+    return res.status(500).json({
+      error: 'Failed to create conversation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/conversations/:id
+conversationsRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const conversation = await getConversationById(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    return res.json({ conversation });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch conversation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/conversations/:id/messages
+conversationsRouter.post('/:id/messages', async (req: Request, res: Response) => {
+  try {
+    const { question } = conversationMessageSchema.parse(req.body);
+    const conversation = await getConversationById(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const snapshot = await getKnowledgeGraphSnapshot();
+    const result = await generateBrainResponse(question, snapshot, toBrainHistory(conversation));
+    const messages = await persistTurn(conversation.id, question, result);
+
+    return res.json({
+      ...formatBrainAnswer(result),
+      conversationId: conversation.id,
+      messages,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error continuing conversation:', error);
+    return res.status(500).json({
+      error: 'Failed to produce answer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/conversations/:id/messages/stream
+conversationsRouter.post('/:id/messages/stream', async (req: Request, res: Response) => {
+  const parsed = conversationMessageSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Validation error', details: parsed.error.errors });
+  }
+
+  try {
+    const conversation = await getConversationById(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const { question } = parsed.data;
+    return streamBrainAnswer(question, res, {
+      history: toBrainHistory(conversation),
+      onComplete: async (result) => ({
+        conversationId: conversation.id,
+        messages: await persistTurn(conversation.id, question, result),
+      }),
+    });
+  } catch (error) {
+    console.error('Error loading conversation for streaming:', error);
+    return res.status(500).json({
+      error: 'Failed to produce answer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// DELETE /api/conversations/:id
+conversationsRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteConversationById(req.params.id);
+    return res.json({ id: req.params.id });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    console.error('Error deleting conversation:', error);
+    return res.status(500).json({
+      error: 'Failed to delete conversation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+function toBrainHistory(conversation: ConversationDTO): BrainTurn[] {
+  return conversation.messages.map((message) => ({
+    role: message.role === 'USER' ? 'user' : 'assistant',
+    content: message.content,
+  }));
+}
+
+async function persistTurn(conversationId: string, question: string, result: BrainAnswer) {
+  const { answer, ...metadata } = formatBrainAnswer(result);
+  return await appendConversationTurn(conversationId, {
+    question,
+    answer,
+    // Round-trip through JSON so dates and nested DTOs become plain JSON values
+    metadata: JSON.parse(JSON.stringify(metadata)) as Prisma.InputJsonValue,
+  });
+}
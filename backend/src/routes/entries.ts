@@ -0,0 +1,246 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { ExtractionJobKind, ExtractionJobStatus } from '@prisma/client';
+import {
+  addObjectiveToEntry,
+  createExtractionJob,
+  getExtractionJobById,
+  getKnowledgeEntryById,
+  getObjectivesByIds,
+  listKnowledgeEntries,
+} from '../database.js';
+import { config } from '../config.js';
+import { notifyExtractionWorker } from '../jobs/extractionWorker.js';
+import { ensureObjectiveEmbeddings } from '../related/embeddings.js';
+import {
+  applyReextractionProposal,
+  ReextractionError,
+  type ReextractionProposal,
+} from '../extraction/reextraction.js';
+import { locateExcerpt, withSourceSpans } from '../extraction/sourceSpans.js';
+import { sanitizeList } from '../extraction/normalization.js';
+import { formatExtractionJob, formatObjectiveForResponse } from './formatters.js';
+import { requestAudit } from './audit.js';
+import { confidenceField, levelField, priorityField, statusField } from './validation.js';
+
+export const entriesRouter = Router();
+
+const listEntriesSchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50)),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0)),
+  query: z.string().optional(),
+});
+
+const reextractSchema = z.object({
+  model: z.string().trim().min(1).max(200).optional(),
+});
+
+const applyReextractionSchema = z.object({
+  add: z.array(z.string().min(1)).optional(),
+  update: z.array(z.string().min(1)).optional(),
+  discard: z.array(z.string().min(1)).optional(),
+});
+
+const optionalText = (max: number) => z.string().trim().max(max).nullish().transform((value) => value || null);
+
+// Mirrors the draft returned with a held-back possible duplicate
+const addObjectiveSchema = z.object({
+  key: z.string().optional(),
+  text: z.string().trim().min(1, 'Text cannot be empty').max(1000),
+  context: optionalText(4000),
+  category: optionalText(120),
+  timeframe: optionalText(120),
+  status: statusField.nullish().transform((value) => value ?? undefined),
+  priority: priorityField.nullish().transform((value) => value ?? undefined),
+  confidence: confidenceField.nullish().transform((value) => value ?? null),
+  owner: optionalText(200),
+  metrics: z
+    .array(z.string().max(500))
+    .optional()
+    .transform((value) => sanitizeList(value ?? [])),
+  tags: z
+    .array(z.string().max(120))
+    .optional()
+    .transform((value) => sanitizeList(value ?? [], { lowercase: true })),
+  sourceLabel: optionalText(300),
+  sourceExcerpt: optionalText(2000),
+  level: levelField.nullish().transform((value) => value ?? null),
+  // existing:<id> of the parent; the pipeline rewrites batch keys before returning the draft
+  parentKey: optionalText(200),
+});
+
+// GET /api/entries
+entriesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const { limit, offset, query } = listEntriesSchema.parse(req.query);
+    const { entries, total } = await listKnowledgeEntries({ limit, offset, query: query?.trim() || undefined });
+
+    return res.json({ entries, total, limit, offset });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error listing knowledge entries:', error);
+    return res.status(500).json({
+      error: 'Failed to list knowledge entries',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/entries/:id
+entriesRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const stored = await getKnowledgeEntryById(req.params.id);
+    if (!stored) {
+      return res.status(404).json({ error: 'Knowledge entry not found' });
+    }
+
+    const entry = withSourceSpans(stored);
+    return res.json({
+      entry: {
+        ...entry,
+        objectives: entry.objectives.map(formatObjectiveForResponse),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching knowledge entry:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch knowledge entry',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/entries/:id/reextract
+entriesRouter.post('/:id/reextract', async (req: Request, res: Response) => {
+  try {
+    const { model } = reextractSchema.parse(req.body ?? {});
+    const entry = await getKnowledgeEntryById(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Knowledge entry not found' });
+    }
+
+    const job = await createExtractionJob({
+      kind: ExtractionJobKind.REEXTRACT,
+      entryId: entry.id,
+      model: model ?? null,
+      text: entry.rawContent,
+      title: entry.title,
+      sourceFormat: entry.sourceFormat,
+    });
+    console.log(`📥 [JOBS] Queued re-extraction job ${job.id} for entry ${entry.id}${model ? ` with ${model}` : ''}`);
+    notifyExtractionWorker();
+
+    return res.status(202).json({ job: formatExtractionJob(job) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error queueing re-extraction:', error);
+    return res.status(500).json({
+      error: 'Failed to queue re-extraction',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/entries/:id/reextract/:jobId/apply
+entriesRouter.post('/:id/reextract/:jobId/apply', async (req: Request, res: Response) => {
+  try {
+    const selection = applyReextractionSchema.parse(req.body ?? {});
+    const job = await getExtractionJobById(req.params.jobId);
+    if (!job || job.kind !== ExtractionJobKind.REEXTRACT || job.entryId !== req.params.id) {
+      return res.status(404).json({ error: 'Re-extraction not found for this entry' });
+    }
+
+    if (job.status !== ExtractionJobStatus.DONE || !job.result) {
+      return res.status(409).json({ error: 'Re-extraction has not finished yet', status: job.status });
+    }
+
+    const result = await applyReextractionProposal(
+      job.id,
+      job.result as unknown as ReextractionProposal,
+      selection,
+      requestAudit(req, 'reextraction'),
+    );
+    const created = await getObjectivesByIds(result.created.map((objective) => objective.id));
+    console.log(
+      `🔁 [REEXTRACT] Applied job ${job.id}: ${created.length} created, ${result.updated} updated, ${result.discarded} discarded`,
+    );
+
+    return res.json({
+      created: created.map(formatObjectiveForResponse),
+      updated: result.updated,
+      discarded: result.discarded,
+      relationshipsCreated: result.relationships,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    if (error instanceof ReextractionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    console.error('Error applying re-extraction:', error);
+    return res.status(500).json({
+      error: 'Failed to apply re-extraction',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/entries/:id/objectives
+entriesRouter.post('/:id/objectives', async (req: Request, res: Response) => {
+  try {
+    const draft = addObjectiveSchema.parse(req.body ?? {});
+    const entry = await getKnowledgeEntryById(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Knowledge entry not found' });
+    }
+
+    const span = locateExcerpt(entry.rawContent, draft.sourceExcerpt);
+    const created = await addObjectiveToEntry(
+      entry.id,
+      {
+        ...draft,
+        key: draft.key ?? 'manual',
+        sourceStart: span?.start ?? null,
+        sourceEnd: span?.end ?? null,
+      },
+      requestAudit(req, 'intake'),
+    );
+    console.log(`➕ [ENTRIES] Added objective ${created.id} to entry ${entry.id}`);
+
+    if (config.EMBEDDINGS_ENABLED) {
+      try {
+        await ensureObjectiveEmbeddings([created], 1);
+      } catch (embeddingError) {
+        console.warn('⚠️ [EMBEDDINGS] Failed to index the added objective, it will be embedded on demand:', embeddingError);
+      }
+    }
+
+    const [objective] = await getObjectivesByIds([created.id]);
+    return res.status(201).json({ objective: formatObjectiveForResponse(objective) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error adding objective to knowledge entry:', error);
+    return res.status(500).json({
+      error: 'Failed to add objective',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
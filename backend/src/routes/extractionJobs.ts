@@ -0,0 +1,171 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
+import { ExtractionJobStatus } from '@prisma/client';
+import {
+  ACTIVE_EXTRACTION_JOB_STATUSES,
+  createExtractionJob,
+  getExtractionJobById,
+  listExtractionJobs,
+} from '../database.js';
+import { notifyExtractionWorker } from '../jobs/extractionWorker.js';
+import { convertDocumentToText, DocumentConversionError } from '../extraction/documentText.js';
+import { formatExtractionJob } from './formatters.js';
+
+export const extractionJobsRouter = Router();
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+const createExtractionJobSchema = z.object({
+  text: z.string().min(1, 'Text is required'),
+  title: z.string().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+});
+
+// Multipart fields arrive as strings; tags may be a JSON array or a comma-separated list
+const uploadExtractionJobSchema = z.object({
+  tags: z
+    .string()
+    .optional()
+    .transform((value) => {
+      if (!value) return [];
+      try {
+        const parsed = JSON.parse(value);
+        if (Array.isArray(parsed)) return parsed.filter((tag): tag is string => typeof tag === 'string');
+      } catch {
+        // Fall through to comma-separated parsing
+      }
+      return value.split(',');
+    })
+    .transform((tags) => tags.map((tag) => tag.trim()).filter((tag) => tag.length > 0)),
+});
+
+const listExtractionJobsSchema = z.object({
+  active: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20)),
+});
+
+// POST /api/extraction-jobs
+extractionJobsRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { text, title, tags } = createExtractionJobSchema.parse(req.body);
+    const job = await createExtractionJob({ text, title, tags });
+    console.log(`📥 [JOBS] Queued extraction job ${job.id} (${text.length} characters)`);
+    notifyExtractionWorker();
+
+    return res.status(202).json({ job: formatExtractionJob(job) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error queueing extraction job:', error);
+    return res.status(500).json({
+      error: 'Failed to queue extraction job',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/extraction-jobs/upload
+extractionJobsRouter.post('/upload', async (req: Request, res: Response) => {
+  try {
+    await receiveUpload(req, res);
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required (multipart field "file")' });
+    }
+
+    const { tags } = uploadExtractionJobSchema.parse(req.body ?? {});
+    const filename = req.file.originalname;
+    const { format, text } = await convertDocumentToText({ filename, buffer: req.file.buffer });
+
+    const job = await createExtractionJob({
+      text,
+      title: filename,
+      sourceLabel: filename,
+      sourceFormat: format,
+      tags,
+    });
+    console.log(`📥 [JOBS] Queued extraction job ${job.id} from ${format} upload "${filename}" (${text.length} characters)`);
+    notifyExtractionWorker();
+
+    return res.status(202).json({ job: formatExtractionJob(job) });
+  } catch (error) {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: 'Upload rejected', message: error.message });
+    }
+
+    if (error instanceof DocumentConversionError) {
+      return res.status(error.statusCode).json({ error: 'Unreadable document', message: error.message });
+    }
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error queueing upload extraction job:', error);
+    return res.status(500).json({
+      error: 'Failed to queue extraction job',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/extraction-jobs
+extractionJobsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const { active, limit } = listExtractionJobsSchema.parse(req.query);
+    const jobs = await listExtractionJobs({
+      statuses: active ? [ExtractionJobStatus.QUEUED, ...ACTIVE_EXTRACTION_JOB_STATUSES] : undefined,
+      limit,
+    });
+
+    return res.json({ jobs: jobs.map(formatExtractionJob) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error listing extraction jobs:', error);
+    return res.status(500).json({
+      error: 'Failed to list extraction jobs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/extraction-jobs/:id
+extractionJobsRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await getExtractionJobById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Extraction job not found' });
+    }
+
+    return res.json({ job: formatExtractionJob(job) });
+  } catch (error) {
+    console.error('Error fetching extraction job:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch extraction job',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+function receiveUpload(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    upload.single('file')(req, res, (error: unknown) => (error ? reject(error) : resolve()));
+  });
+}
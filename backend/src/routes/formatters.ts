@@ -0,0 +1,94 @@
+import type { ExtractionJobDTO, ObjectiveDTO } from '../database.js';
+import type { BrainAnswer } from '../brain/brain.js';
+import type { ExtractionResult } from '../extraction/pipeline.js';
+
+export function formatObjectiveForResponse(objective: ObjectiveDTO) {
+  return {
+    id: objective.id,
+    text: objective.text,
+    createdAt: objective.createdAt,
+    updatedAt: objective.updatedAt,
+    context: objective.context,
+    category: objective.category,
+    timeframe: objective.timeframe,
+    status: objective.status,
+    priority: objective.priority,
+    reviewState: objective.reviewState,
+    confidence: objective.confidence,
+    owner: objective.owner,
+    metrics: objective.metrics,
+    tags: objective.tags,
+    sourceLabel: objective.sourceLabel,
+    sourceExcerpt: objective.sourceExcerpt,
+    sourceStart: objective.sourceStart,
+    sourceEnd: objective.sourceEnd,
+    level: objective.level,
+    parentId: objective.parentId,
+    entryId: objective.entryId,
+    related: objective.related.map((relation) => ({
+      id: relation.target.id,
+      text: relation.target.text,
+      status: relation.target.status,
+      priority: relation.target.priority,
+      type: relation.type,
+      rationale: relation.rationale,
+      weight: relation.weight,
+    })),
+    keyResults: objective.keyResults,
+    progress: objective.progress,
+  };
+}
+
+export function formatBrainAnswer(result: BrainAnswer) {
+  return {
+    answer: result.answer,
+    contextObjectives: result.contextObjectives,
+    citations: result.citations.map(({ ref, objective }) => ({
+      ref,
+      ...formatObjectiveForResponse(objective),
+    })),
+    citedRelationships: result.citedRelationships.map(({ ref, relationship, fromText, toText }) => ({
+      ref,
+      ...relationship,
+      fromText,
+      toText,
+    })),
+  };
+}
+
+export function formatExtractionResult(result: ExtractionResult) {
+  const objectives = result.objectives.map(formatObjectiveForResponse);
+
+  return {
+    entryId: result.entryId,
+    objectives,
+    totalInserted: objectives.length,
+    duplicatesSkipped: result.duplicatesSkipped,
+    possibleDuplicates: result.possibleDuplicates,
+    relationshipsCreated: result.relationshipsCreated,
+    suggestedRelationships: result.suggestedRelationships,
+  };
+}
+
+export function formatExtractionJob(job: ExtractionJobDTO) {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    title: job.title,
+    sourceLabel: job.sourceLabel,
+    sourceFormat: job.sourceFormat,
+    tags: job.tags,
+    entryId: job.entryId,
+    model: job.model,
+    textPreview: job.text.length > 140 ? `${job.text.slice(0, 140)}…` : job.text,
+    attempts: job.attempts,
+    result: job.result,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    appliedAt: job.appliedAt,
+  };
+}
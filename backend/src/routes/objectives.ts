@@ -1,37 +1,51 @@
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
 import {
-  createKnowledgeGraphEntry,
+  createKeyResult,
   createObjectiveRelationshipRecord,
-  deleteObjectiveById,
+  deleteKeyResult,
   deleteObjectiveRelationshipRecord,
+  findHierarchyConflict,
+  getHierarchyObjectives,
   getKnowledgeGraphSnapshot,
   getObjectivesByIds,
-  getObjectivesForPrompt,
+  getObjectivesForReview,
   getObjectivesWithRelations,
+  getRelatednessCandidates,
+  listKeyResultCheckIns,
+  listKeyResults,
+  listObjectiveHistory,
+  listObjectiveMerges,
+  listTrashedObjectives,
+  mergeObjectives,
+  purgeObjective,
+  recordKeyResultCheckIn,
+  RelationshipError,
+  restoreObjective,
   searchObjectives,
+  setObjectiveReviewState,
+  splitObjective,
+  trashObjective,
+  updateKeyResult,
+  updateObjectiveRecord,
   updateObjectiveRelationshipRecord,
-  prisma,
-  type ObjectiveDTO,
-  type ObjectiveDraft,
-  type RelationshipDraft,
 } from '../database.js';
-import {
-  ObjectivePriority,
-  ObjectiveRelationshipType,
-  ObjectiveStatus,
-  Prisma,
-} from '@prisma/client';
-import {
-  extractObjectiveGraph,
-  generateBrainInsight,
-  type AgentGraphExtraction,
-  type AgentObjective,
-  type AgentRelationship,
-} from '../llm/agent.js';
+import { ObjectiveLevel, ObjectiveRelationshipType, ObjectiveReviewState, Prisma } from '@prisma/client';
+import { generateBrainResponse } from '../brain/brain.js';
+import { suggestObjectiveSplit } from '../llm/agent.js';
+import { runExtractionPipeline } from '../extraction/pipeline.js';
+import { sanitizeList } from '../extraction/normalization.js';
+import { streamBrainAnswer } from './brainStream.js';
+import { formatBrainAnswer, formatExtractionResult, formatObjectiveForResponse } from './formatters.js';
+import { rankObjectivesForQuery } from '../related/related.js';
+import { buildObjectiveTree } from '../hierarchy/tree.js';
+import { requestAudit } from './audit.js';
+import { confidenceField, priorityField, statusField } from './validation.js';
 
 export const objectivesRouter = Router();
 
+const SEMANTIC_SEARCH_CANDIDATE_LIMIT = 500;
+
 const extractAndStoreSchema = z.object({
   text: z.string().min(1, 'Text is required'),
   title: z.string().optional(),
@@ -48,6 +62,7 @@ const getObjectivesSchema = z.object({
     .optional()
     .transform((val) => (val ? parseInt(val, 10) : 0)),
   query: z.string().optional(),
+  mode: z.enum(['keyword', 'semantic']).default('keyword'),
 });
 
 const getObjectivesBatchSchema = z.object({
@@ -60,6 +75,47 @@ const getObjectivesBatchSchema = z.object({
     .refine((ids) => ids.length > 0, 'Provide at least one objective id'),
 });
 
+const getReviewQueueSchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50)),
+});
+
+const optionalTextField = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => (value === '' ? null : value));
+
+const updateObjectiveSchema = z
+  .object({
+    text: z.string().trim().min(1, 'Text cannot be empty').max(1000).optional(),
+    context: optionalTextField(4000),
+    category: optionalTextField(120),
+    timeframe: optionalTextField(120),
+    status: statusField.optional(),
+    priority: priorityField.optional(),
+    confidence: confidenceField.optional().nullable(),
+    owner: optionalTextField(200),
+    metrics: z
+      .array(z.string().max(500))
+      .optional()
+      .transform((value) => (value === undefined ? undefined : sanitizeList(value))),
+    tags: z
+      .array(z.string().max(120))
+      .optional()
+      .transform((value) => (value === undefined ? undefined : sanitizeList(value, { lowercase: true }))),
+    level: z.nativeEnum(ObjectiveLevel).optional().nullable(),
+    parentId: z.string().uuid('parentId must be a valid UUID').optional().nullable(),
+  })
+  .refine((value) => Object.values(value).some((item) => item !== undefined), {
+    message: 'Provide at least one field to update',
+  });
+
 const brainQuerySchema = z.object({
   question: z.string().min(5, 'Ask a complete question'),
 });
@@ -91,70 +147,106 @@ const updateRelationshipSchema = z
     message: 'Provide at least one field to update',
   });
 
-// POST /api/objectives/extract-and-store
-objectivesRouter.post('/extract-and-store', async (req: Request, res: Response) => {
-  const startTime = Date.now();
-  console.log('\n🚀 [EXTRACT-AND-STORE] Starting request...');
-
-  try {
-    const { text, title, tags } = extractAndStoreSchema.parse(req.body);
-    const manualTags = sanitizeList(tags ?? [], { lowercase: true });
-    console.log(`📝 [INPUT] Received text: ${text.length} characters`);
-    console.log(`📝 [INPUT] Preview: "${text.substring(0, 140)}${text.length > 140 ? '…' : ''}"`);
+const mergeObjectivesSchema = z
+  .object({
+    survivorId: z.string().uuid('survivorId must be a valid UUID'),
+    mergedIds: z.array(z.string().uuid('mergedIds must be valid UUIDs')).min(1, 'Pick at least one objective to merge').max(20),
+  })
+  .superRefine((value, ctx) => {
+    if (value.mergedIds.includes(value.survivorId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'The surviving objective cannot also be merged away',
+        path: ['mergedIds'],
+      });
+    }
+  })
+  .transform((value) => ({ ...value, mergedIds: Array.from(new Set(value.mergedIds)) }));
+
+const splitObjectiveSchema = z.object({
+  parts: z
+    .array(
+      z.object({
+        text: z.string().trim().min(1, 'Part text cannot be empty').max(1000),
+        context: optionalTextField(4000),
+        metrics: z
+          .array(z.string().max(500))
+          .optional()
+          .transform((value) => (value === undefined ? undefined : sanitizeList(value))),
+      }),
+    )
+    .min(2, 'Split into at least two parts')
+    .max(8),
+  relationships: z.record(z.array(z.number().int().min(0))).optional(),
+});
 
-    const existingObjectives = await getObjectivesForPrompt(24);
-    console.log(`📚 [CONTEXT] Providing ${existingObjectives.length} objectives to the agent for grounding`);
+const keyResultFields = {
+  metric: z.string().trim().min(1, 'Metric name is required').max(300),
+  unit: optionalTextField(40),
+  baseline: z.number().finite(),
+  target: z.number().finite(),
+  dueDate: z.coerce.date().optional().nullable(),
+};
+
+const createKeyResultSchema = z.object({
+  ...keyResultFields,
+  baseline: keyResultFields.baseline.optional(),
+  currentValue: z.number().finite().optional(),
+});
 
-    console.log('🤖 [LLM] Requesting structured graph extraction...');
-    const extraction = await extractObjectiveGraph(text, {
-      title: title ?? null,
-      existingObjectives,
-    });
+const updateKeyResultSchema = z
+  .object({
+    metric: keyResultFields.metric.optional(),
+    unit: keyResultFields.unit,
+    baseline: keyResultFields.baseline.optional(),
+    target: keyResultFields.target.optional(),
+    dueDate: keyResultFields.dueDate,
+  })
+  .refine((value) => Object.values(value).some((item) => item !== undefined), {
+    message: 'Provide at least one field to update',
+  });
 
-    const drafts = await prepareObjectiveDrafts(extraction, {
-      title: title ?? null,
-      rawText: text,
-    });
+const checkInSchema = z.object({
+  value: z.number().finite(),
+  note: optionalTextField(1000),
+  recordedAt: z.coerce.date().optional(),
+});
 
-    if (manualTags.length > 0) {
-      drafts.objectives = drafts.objectives.map((objective) => ({
-        ...objective,
-        tags: Array.from(new Set([...(objective.tags ?? []), ...manualTags])),
-      }));
-    }
+const historySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Math.min(parseInt(val, 10), 500) : 100)),
+});
 
-    if (drafts.objectives.length === 0 && drafts.relationships.length === 0) {
-      console.log('⚠️ [RESULT] No new objectives or relationships to store');
-      return res.json({
-        objectives: [],
-        totalInserted: 0,
-        duplicatesSkipped: drafts.duplicates,
-        relationshipsCreated: 0,
-      });
-    }
+const listTrashSchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 100)),
+});
 
-    console.log(`💾 [DATABASE] Persisting ${drafts.objectives.length} objectives and ${drafts.relationships.length} relationships`);
-    const persistenceResult = await createKnowledgeGraphEntry({
-      rawContent: text,
-      title: extraction.title ?? title ?? null,
-      objectives: drafts.objectives,
-      relationships: drafts.relationships,
-    });
+const listMergesSchema = z.object({
+  objectiveId: z.string().uuid().optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50)),
+});
 
-    const objectiveIds = persistenceResult.objectives.map((obj) => obj.id);
-    const insertedObjectives = await getObjectivesByIds(objectiveIds);
+// POST /api/objectives/extract-and-store
+objectivesRouter.post('/extract-and-store', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  console.log('\n🚀 [EXTRACT-AND-STORE] Starting request...');
 
-    const payload = insertedObjectives.map(formatObjectiveForResponse);
+  try {
+    const input = extractAndStoreSchema.parse(req.body);
+    const result = await runExtractionPipeline(input);
 
     const totalDuration = Date.now() - startTime;
-    console.log(`\n🎉 [COMPLETE] Stored ${payload.length} objectives in ${totalDuration}ms`);
+    console.log(`\n🎉 [COMPLETE] Stored ${result.objectives.length} objectives in ${totalDuration}ms`);
 
-    return res.json({
-      objectives: payload,
-      totalInserted: payload.length,
-      duplicatesSkipped: drafts.duplicates,
-      relationshipsCreated: persistenceResult.relationships.length,
-    });
+    return res.json(formatExtractionResult(result));
   } catch (error) {
     const totalDuration = Date.now() - startTime;
     console.error(`\n❌ [ERROR] Request failed after ${totalDuration}ms`);
@@ -178,7 +270,30 @@ objectivesRouter.post('/extract-and-store', async (req: Request, res: Response)
 // GET /api/objectives
 objectivesRouter.get('/', async (req: Request, res: Response) => {
   try {
-    const { limit, offset, query } = getObjectivesSchema.parse(req.query);
+    const { limit, offset, query, mode } = getObjectivesSchema.parse(req.query);
+
+    if (mode === 'semantic' && query && query.trim().length > 0) {
+      const candidates = await getRelatednessCandidates(SEMANTIC_SEARCH_CANDIDATE_LIMIT);
+      const ranking = await rankObjectivesForQuery(query.trim(), candidates);
+      const page = ranking.hits.slice(offset, offset + limit);
+      const objectivesById = new Map(
+        (await getObjectivesByIds(page.map((hit) => hit.id))).map((objective) => [objective.id, objective]),
+      );
+
+      const objectives = page.flatMap((hit) => {
+        const objective = objectivesById.get(hit.id);
+        return objective ? [{ ...formatObjectiveForResponse(objective), score: hit.score }] : [];
+      });
+
+      return res.json({
+        objectives,
+        total: ranking.hits.length,
+        limit,
+        offset,
+        mode: 'semantic',
+        scoring: ranking.mode,
+      });
+    }
 
     const objectives = query && query.length > 0
       ? await searchObjectives(query, limit, offset)
@@ -234,11 +349,38 @@ objectivesRouter.get('/batch', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/objectives/review
+objectivesRouter.get('/review', async (req: Request, res: Response) => {
+  try {
+    const { limit } = getReviewQueueSchema.parse(req.query);
+    const objectives = await getObjectivesForReview(limit);
+
+    return res.json({
+      objectives: objectives.map(formatObjectiveForResponse),
+      total: objectives.length,
+    });
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Failed to fetch review queue',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // POST /api/objectives/relationships
 objectivesRouter.post('/relationships', async (req: Request, res: Response) => {
   try {
     const payload = createRelationshipSchema.parse(req.body);
-    const result = await createObjectiveRelationshipRecord(payload);
+    const result = await createObjectiveRelationshipRecord(payload, requestAudit(req, 'edit'));
 
     return res.status(201).json(result);
   } catch (error) {
@@ -246,6 +388,10 @@ objectivesRouter.post('/relationships', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Validation error', details: error.errors });
     }
 
+    if (error instanceof RelationshipError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
       return res.status(409).json({ error: 'Relationship already exists for this pair and type' });
     }
@@ -268,35 +414,19 @@ objectivesRouter.patch('/relationships/:id', async (req: Request, res: Response)
 
   try {
     const payload = updateRelationshipSchema.parse(req.body);
-    if (payload.toId) {
-      const existing = await prisma.objectiveRelationship.findUnique({
-        where: { id: relationshipId },
-        select: { fromId: true },
-      });
-
-      if (!existing) {
-        return res.status(404).json({ error: 'Relationship not found' });
-      }
-
-      if (existing.fromId === payload.toId) {
-        return res.status(400).json({ error: 'Relationships must connect two different objectives' });
-      }
-    }
-
-    const result = await updateObjectiveRelationshipRecord(relationshipId, payload);
+    const result = await updateObjectiveRelationshipRecord(relationshipId, payload, requestAudit(req, 'edit'));
     return res.json(result);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation error', details: error.errors });
     }
 
-    if (error instanceof Prisma.PrismaClientKnownRequestError) {
-      if (error.code === 'P2002') {
-        return res.status(409).json({ error: 'Relationship already exists for this pair and type' });
-      }
-      if (error.code === 'P2025') {
-        return res.status(404).json({ error: 'Relationship not found' });
-      }
+    if (error instanceof RelationshipError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Relationship already exists for this pair and type' });
     }
 
     console.error('Error updating relationship:', error);
@@ -316,11 +446,11 @@ objectivesRouter.delete('/relationships/:id', async (req: Request, res: Response
   }
 
   try {
-    const result = await deleteObjectiveRelationshipRecord(relationshipId);
+    const result = await deleteObjectiveRelationshipRecord(relationshipId, requestAudit(req, 'edit'));
     return res.json(result);
   } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      return res.status(404).json({ error: 'Relationship not found' });
+    if (error instanceof RelationshipError) {
+      return res.status(error.statusCode).json({ error: error.message });
     }
 
     console.error('Error deleting relationship:', error);
@@ -331,360 +461,458 @@ objectivesRouter.delete('/relationships/:id', async (req: Request, res: Response
   }
 });
 
-// DELETE /api/objectives/:id
-objectivesRouter.delete('/:id', async (req: Request, res: Response) => {
-  const objectiveId = req.params.id;
+// POST /api/objectives/merge
+objectivesRouter.post('/merge', async (req: Request, res: Response) => {
+  try {
+    const { survivorId, mergedIds } = mergeObjectivesSchema.parse(req.body);
+    const result = await mergeObjectives(survivorId, mergedIds, requestAudit(req, 'merge'));
+    if (!result) {
+      return res.status(404).json({ error: 'One or more objectives were not found' });
+    }
 
-  if (!objectiveId) {
-    return res.status(400).json({ error: 'Objective id is required' });
+    console.log(
+      `🧬 [MERGE] Merged ${mergedIds.length} objectives into ${survivorId}: ${result.merge.relationshipsRewired} links rewired, ${result.merge.relationshipsDropped} dropped`,
+    );
+    return res.json({ objective: formatObjectiveForResponse(result.objective), merge: result.merge });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error merging objectives:', error);
+    return res.status(500).json({
+      error: 'Failed to merge objectives',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
+// GET /api/objectives/merges
+objectivesRouter.get('/merges', async (req: Request, res: Response) => {
   try {
-    await deleteObjectiveById(objectiveId);
-    return res.json({ id: objectiveId });
+    const { objectiveId, limit } = listMergesSchema.parse(req.query);
+    const merges = await listObjectiveMerges(objectiveId, limit);
+    return res.json({ merges });
   } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      return res.status(404).json({ error: 'Objective not found' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
     }
 
-    console.error('Error deleting objective:', error);
+    console.error('Error listing objective merges:', error);
     return res.status(500).json({
-      error: 'Failed to delete objective',
+      error: 'Failed to list objective merges',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 });
 
-// GET /api/objectives/graph
-objectivesRouter.get('/graph', async (_req: Request, res: Response) => {
+// GET /api/objectives/:id/history
+objectivesRouter.get('/:id/history', async (req: Request, res: Response) => {
   try {
-    const snapshot = await getKnowledgeGraphSnapshot();
-    return res.json(snapshot);
+    const { limit } = historySchema.parse(req.query);
+    const events = await listObjectiveHistory(req.params.id, limit);
+    return res.json({ events });
   } catch (error) {
-    console.error('Error fetching knowledge graph snapshot:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error loading objective history:', error);
     return res.status(500).json({
-      error: 'Failed to load knowledge graph',
+      error: 'Failed to load objective history',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 });
 
-// POST /api/objectives/brain
-objectivesRouter.post('/brain', async (req: Request, res: Response) => {
+// GET /api/objectives/:id/key-results
+objectivesRouter.get('/:id/key-results', async (req: Request, res: Response) => {
   try {
-    const { question } = brainQuerySchema.parse(req.body);
-    const snapshot = await getKnowledgeGraphSnapshot();
-    const answer = await generateBrainResponse(question, snapshot);
+    const keyResults = await listKeyResults(req.params.id);
+    if (!keyResults) {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
 
-    return res.json({
-      answer,
-      totalObjectives: snapshot.objectives.length,
-      totalRelationships: snapshot.relationships.length,
-    });
+    return res.json({ keyResults });
   } catch (error) {
-    console.error('Error generating brain response:', error);
+    console.error('Error listing key results:', error);
+    return res.status(500).json({
+      error: 'Failed to list key results',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
+// POST /api/objectives/:id/key-results
+objectivesRouter.post('/:id/key-results', async (req: Request, res: Response) => {
+  try {
+    const payload = createKeyResultSchema.parse(req.body);
+    const keyResult = await createKeyResult(req.params.id, payload, requestAudit(req, 'edit'));
+    if (!keyResult) {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
+
+    console.log(`🎯 [OKR] Added key result "${keyResult.metric}" to ${req.params.id}`);
+    return res.status(201).json({ keyResult });
+  } catch (error) {
     if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation error',
-        details: error.errors,
-      });
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
     }
 
+    console.error('Error creating key result:', error);
     return res.status(500).json({
-      error: 'Failed to produce answer',
+      error: 'Failed to create key result',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 });
 
-async function prepareObjectiveDrafts(
-  extraction: AgentGraphExtraction,
-  meta: { title: string | null; rawText: string },
-): Promise<{
-  objectives: ObjectiveDraft[];
-  relationships: RelationshipDraft[];
-  duplicates: number;
-}> {
-  const seenTexts = new Set<string>();
-  const normalizedStatements = extraction.objectives.map((objective) => normalize(objective.statement));
+// PATCH /api/objectives/key-results/:id
+objectivesRouter.patch('/key-results/:id', async (req: Request, res: Response) => {
+  try {
+    const payload = updateKeyResultSchema.parse(req.body);
+    const keyResult = await updateKeyResult(req.params.id, payload, requestAudit(req, 'edit'));
+    if (!keyResult) {
+      return res.status(404).json({ error: 'Key result not found' });
+    }
 
-  const existingMatches = normalizedStatements.length > 0
-    ? await prisma.objective.findMany({
-        where: {
-          OR: normalizedStatements.map((val) => ({
-            text: {
-              equals: val.original,
-              mode: 'insensitive' as const,
-            },
-          })),
-        },
-        select: { text: true },
-      })
-    : [];
+    return res.json({ keyResult });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
 
-  for (const match of existingMatches) {
-    seenTexts.add(normalize(match.text).normalized);
+    console.error('Error updating key result:', error);
+    return res.status(500).json({
+      error: 'Failed to update key result',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
-  const objectives: ObjectiveDraft[] = [];
-  let duplicates = 0;
+// DELETE /api/objectives/key-results/:id
+objectivesRouter.delete('/key-results/:id', async (req: Request, res: Response) => {
+  try {
+    const result = await deleteKeyResult(req.params.id, requestAudit(req, 'edit'));
+    if (!result) {
+      return res.status(404).json({ error: 'Key result not found' });
+    }
 
-  for (const objective of extraction.objectives) {
-    const normalized = normalize(objective.statement);
-    if (normalized.normalized.length === 0) continue;
+    return res.json(result);
+  } catch (error) {
+    console.error('Error deleting key result:', error);
+    return res.status(500).json({
+      error: 'Failed to delete key result',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-    if (seenTexts.has(normalized.normalized)) {
-      duplicates += 1;
-      continue;
+// GET /api/objectives/key-results/:id/check-ins
+objectivesRouter.get('/key-results/:id/check-ins', async (req: Request, res: Response) => {
+  try {
+    const checkIns = await listKeyResultCheckIns(req.params.id);
+    if (!checkIns) {
+      return res.status(404).json({ error: 'Key result not found' });
     }
 
-    seenTexts.add(normalized.normalized);
-    objectives.push(toObjectiveDraft(objective, meta));
+    return res.json({ checkIns });
+  } catch (error) {
+    console.error('Error listing key result check-ins:', error);
+    return res.status(500).json({
+      error: 'Failed to list check-ins',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
-  const validKeys = new Set(objectives.map((objective) => objective.key));
-  const relationships = (extraction.relationships ?? [])
-    .map((relationship) => toRelationshipDraft(relationship))
-    .filter((rel): rel is RelationshipDraft => {
-      if (!rel) return false;
-      const fromValid = rel.from.startsWith('existing:') || validKeys.has(rel.from);
-      const toValid = rel.to.startsWith('existing:') || validKeys.has(rel.to);
-      return fromValid && toValid;
-    });
+// POST /api/objectives/key-results/:id/check-ins
+objectivesRouter.post('/key-results/:id/check-ins', async (req: Request, res: Response) => {
+  try {
+    const payload = checkInSchema.parse(req.body);
+    const result = await recordKeyResultCheckIn(req.params.id, payload, requestAudit(req, 'check-in'));
+    if (!result) {
+      return res.status(404).json({ error: 'Key result not found' });
+    }
 
-  return { objectives, relationships, duplicates };
-}
+    console.log(
+      `📈 [OKR] Check-in ${payload.value} on "${result.keyResult.metric}" (${Math.round(result.keyResult.progress * 100)}%)`,
+    );
+    return res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
 
-function toObjectiveDraft(objective: AgentObjective, meta: { title: string | null; rawText: string }): ObjectiveDraft {
-  return {
-    key: objective.key,
-    text: objective.statement.trim(),
-    context: objective.context?.trim() ?? null,
-    category: objective.category ?? null,
-    timeframe: objective.timeframe ?? null,
-    status: parseStatus(objective.status),
-    priority: parsePriority(objective.priority),
-    confidence: parseConfidence(objective.confidence),
-    owner: objective.owner?.trim() ?? null,
-    metrics: sanitizeList(objective.metrics),
-    tags: sanitizeList(objective.tags, { lowercase: true }),
-    sourceLabel: objective.sourceLabel?.trim() ?? meta.title ?? 'Unlabeled intake',
-    sourceExcerpt: objective.sourceExcerpt?.trim() ?? null,
-  } satisfies ObjectiveDraft;
-}
+    console.error('Error recording key result check-in:', error);
+    return res.status(500).json({
+      error: 'Failed to record check-in',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-function toRelationshipDraft(relationship: AgentRelationship): RelationshipDraft | null {
-  const type = parseRelationshipType(relationship.type);
-  if (!type) return null;
-
-  return {
-    from: relationship.from,
-    to: relationship.to,
-    type,
-    rationale: relationship.rationale?.trim() ?? null,
-    weight: parseWeight(relationship.weight),
-  } satisfies RelationshipDraft;
-}
+// POST /api/objectives/:id/split/suggestions
+objectivesRouter.post('/:id/split/suggestions', async (req: Request, res: Response) => {
+  try {
+    const [objective] = await getObjectivesByIds([req.params.id]);
+    if (!objective) {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
 
-function formatObjectiveForResponse(objective: ObjectiveDTO) {
-  return {
-    id: objective.id,
-    text: objective.text,
-    createdAt: objective.createdAt,
-    updatedAt: objective.updatedAt,
-    context: objective.context,
-    category: objective.category,
-    timeframe: objective.timeframe,
-    status: objective.status,
-    priority: objective.priority,
-    confidence: objective.confidence,
-    owner: objective.owner,
-    metrics: objective.metrics,
-    tags: objective.tags,
-    sourceLabel: objective.sourceLabel,
-    sourceExcerpt: objective.sourceExcerpt,
-    related: objective.related.map((relation) => ({
-      id: relation.target.id,
-      text: relation.target.text,
-      status: relation.target.status,
-      priority: relation.target.priority,
-      type: relation.type,
-      rationale: relation.rationale,
-      weight: relation.weight,
-    })),
-  };
-}
+    const parts = await suggestObjectiveSplit(objective);
+    console.log(`✂️ [SPLIT] Suggested ${parts.length} parts for ${objective.id}`);
+    return res.json({
+      parts: parts.map((part) => ({ text: part.statement.trim(), context: part.context?.trim() || null })),
+    });
+  } catch (error) {
+    console.error('Error suggesting objective split:', error);
+    return res.status(500).json({
+      error: 'Failed to suggest a split',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-interface NormalizedText {
-  original: string;
-  normalized: string;
-}
+// POST /api/objectives/:id/split
+objectivesRouter.post('/:id/split', async (req: Request, res: Response) => {
+  try {
+    const { parts, relationships } = splitObjectiveSchema.parse(req.body);
+    const result = await splitObjective(req.params.id, parts, relationships, requestAudit(req, 'split'));
+    if (!result) {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
 
-function normalize(statement: string): NormalizedText {
-  const original = statement.trim();
-  const normalized = original.toLowerCase().replace(/\s+/g, ' ');
-  return { original, normalized };
-}
+    console.log(`✂️ [SPLIT] Split ${req.params.id} into ${result.objectives.length} objectives`);
+    return res.json({ objectives: result.objectives.map(formatObjectiveForResponse), split: result.split });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
 
-function parseStatus(value?: string | null): ObjectiveStatus | undefined {
-  if (!value) return undefined;
-  const normalized = value.trim().toUpperCase();
-  if (normalized in ObjectiveStatus) {
-    return ObjectiveStatus[normalized as keyof typeof ObjectiveStatus];
-  }
-
-  switch (normalized) {
-    case 'IN PROGRESS':
-    case 'IN_PROGRESS':
-    case 'ACTIVE':
-      return ObjectiveStatus.ACTIVE;
-    case 'PLANNED':
-    case 'PLANNING':
-      return ObjectiveStatus.PLANNED;
-    case 'BLOCKED':
-    case 'ON HOLD':
-    case 'ON_HOLD':
-      return ObjectiveStatus.BLOCKED;
-    case 'DONE':
-    case 'COMPLETE':
-    case 'COMPLETED':
-      return ObjectiveStatus.COMPLETE;
-    case 'IDEA':
-    case 'PROPOSED':
-    default:
-      return ObjectiveStatus.PROPOSED;
+    console.error('Error splitting objective:', error);
+    return res.status(500).json({
+      error: 'Failed to split objective',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
-}
+});
 
-function parsePriority(value?: string | null): ObjectivePriority | undefined {
-  if (!value) return undefined;
-  const normalized = value.trim().toUpperCase();
-  if (normalized in ObjectivePriority) {
-    return ObjectivePriority[normalized as keyof typeof ObjectivePriority];
-  }
+// PATCH /api/objectives/:id
+objectivesRouter.patch('/:id', async (req: Request, res: Response) => {
+  const objectiveId = req.params.id;
 
-  switch (normalized) {
-    case 'P0':
-    case 'CRITICAL':
-    case 'HIGHEST':
-      return ObjectivePriority.HIGH;
-    case 'P2':
-    case 'LOW':
-      return ObjectivePriority.LOW;
-    default:
-      return ObjectivePriority.MEDIUM;
+  if (!objectiveId) {
+    return res.status(400).json({ error: 'Objective id is required' });
   }
-}
 
-function parseRelationshipType(value?: string | null): ObjectiveRelationshipType | null {
-  if (!value) return null;
-  const normalized = value.trim().toUpperCase().replace(/\s+/g, '_');
-
-  if (normalized in ObjectiveRelationshipType) {
-    return ObjectiveRelationshipType[normalized as keyof typeof ObjectiveRelationshipType];
-  }
-
-  switch (normalized) {
-    case 'SUPPORTS':
-    case 'ALIGNS_WITH':
-      return ObjectiveRelationshipType.SUPPORTS;
-    case 'UNBLOCKS':
-    case 'BLOCKED_BY':
-    case 'DEPENDS_ON':
-      return ObjectiveRelationshipType.DEPENDS_ON;
-    case 'RELATES_TO':
-    case 'CONNECTED_TO':
-      return ObjectiveRelationshipType.RELATES_TO;
-    case 'BLOCKS':
-      return ObjectiveRelationshipType.BLOCKS;
-    case 'INFORMS':
-    case 'INSPIRES':
-      return ObjectiveRelationshipType.INFORMS;
-    default:
-      return null;
+  try {
+    const payload = updateObjectiveSchema.parse(req.body);
+    if (payload.parentId) {
+      const conflict = await findHierarchyConflict(objectiveId, payload.parentId);
+      if (conflict) {
+        return res.status(400).json({ error: conflict });
+      }
+    }
+
+    const objective = await updateObjectiveRecord(objectiveId, payload, requestAudit(req, 'edit'));
+    return res.json({ objective: formatObjectiveForResponse(objective) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
+
+    console.error('Error updating objective:', error);
+    return res.status(500).json({
+      error: 'Failed to update objective',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
-}
+});
+
+// POST /api/objectives/:id/accept
+objectivesRouter.post('/:id/accept', async (req: Request, res: Response) => {
+  return handleReviewDecision(req, res, ObjectiveReviewState.ACCEPTED);
+});
+
+// POST /api/objectives/:id/discard
+objectivesRouter.post('/:id/discard', async (req: Request, res: Response) => {
+  return handleReviewDecision(req, res, ObjectiveReviewState.DISCARDED);
+});
 
-function parseConfidence(value?: string | number | null): number | null {
-  if (value === null || value === undefined) return null;
-  if (typeof value === 'number' && !Number.isNaN(value)) {
-    return clamp(value);
+// DELETE /api/objectives/:id
+objectivesRouter.delete('/:id', async (req: Request, res: Response) => {
+  const objectiveId = req.params.id;
+
+  if (!objectiveId) {
+    return res.status(400).json({ error: 'Objective id is required' });
   }
 
-  const parsed = parseFloat(String(value).replace(/[^0-9.]/g, ''));
-  if (Number.isNaN(parsed)) return null;
+  try {
+    const result = await trashObjective(objectiveId, requestAudit(req, 'trash'));
+    console.log(`🗑️ [TRASH] Moved ${objectiveId} to the trash`);
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
 
-  return parsed > 1 ? clamp(parsed / 100) : clamp(parsed);
-}
+    console.error('Error deleting objective:', error);
+    return res.status(500).json({
+      error: 'Failed to delete objective',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/objectives/trash
+objectivesRouter.get('/trash', async (req: Request, res: Response) => {
+  try {
+    const { limit } = listTrashSchema.parse(req.query);
+    const objectives = await listTrashedObjectives(limit);
+    return res.json({ objectives, total: objectives.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
 
-function parseWeight(value?: string | number | null): number | null {
-  if (value === null || value === undefined) return null;
-  if (typeof value === 'number' && !Number.isNaN(value)) {
-    return clamp(value);
+    console.error('Error listing trashed objectives:', error);
+    return res.status(500).json({
+      error: 'Failed to list the trash',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
-  const parsed = parseFloat(String(value));
-  if (Number.isNaN(parsed)) return null;
-  return clamp(parsed);
-}
+// POST /api/objectives/:id/restore
+objectivesRouter.post('/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const objective = await restoreObjective(req.params.id, requestAudit(req, 'restore'));
+    if (!objective) {
+      return res.status(404).json({ error: 'Objective not found in the trash' });
+    }
 
-function clamp(value: number): number {
-  if (Number.isNaN(value)) return 0;
-  if (value < 0) return 0;
-  if (value > 1) return 1;
-  return value;
-}
+    console.log(`♻️ [TRASH] Restored ${objective.id}`);
+    return res.json({ objective: formatObjectiveForResponse(objective) });
+  } catch (error) {
+    console.error('Error restoring objective:', error);
+    return res.status(500).json({
+      error: 'Failed to restore objective',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-function sanitizeList(values: unknown, opts: { lowercase?: boolean } = {}): string[] {
-  if (!Array.isArray(values)) return [];
-  const seen = new Set<string>();
-  const output: string[] = [];
+// DELETE /api/objectives/trash/:id
+objectivesRouter.delete('/trash/:id', async (req: Request, res: Response) => {
+  try {
+    await purgeObjective(req.params.id, requestAudit(req, 'purge'));
+    console.log(`🔥 [TRASH] Permanently deleted ${req.params.id}`);
+    return res.json({ id: req.params.id });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return res.status(404).json({ error: 'Objective not found in the trash' });
+    }
 
-  for (const value of values) {
-    if (typeof value !== 'string') continue;
-    const trimmed = value.trim();
-    if (!trimmed) continue;
-    const normalized = opts.lowercase ? trimmed.toLowerCase() : trimmed;
-    if (seen.has(normalized)) continue;
-    seen.add(normalized);
-    output.push(normalized);
+    console.error('Error purging objective:', error);
+    return res.status(500).json({
+      error: 'Failed to permanently delete objective',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
-  return output;
-}
+// GET /api/objectives/tree
+objectivesRouter.get('/tree', async (_req: Request, res: Response) => {
+  try {
+    const objectives = await getHierarchyObjectives();
+    const roots = buildObjectiveTree(objectives);
+    return res.json({ roots, total: objectives.length });
+  } catch (error) {
+    console.error('Error building objective tree:', error);
+    return res.status(500).json({
+      error: 'Failed to load objective hierarchy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-async function generateBrainResponse(question: string, snapshot: Awaited<ReturnType<typeof getKnowledgeGraphSnapshot>>): Promise<string> {
-  if (snapshot.objectives.length === 0) {
-    return 'The knowledge graph is empty. Add strategic objectives to ask contextual questions.';
+// GET /api/objectives/graph
+objectivesRouter.get('/graph', async (_req: Request, res: Response) => {
+  try {
+    const snapshot = await getKnowledgeGraphSnapshot();
+    return res.json(snapshot);
+  } catch (error) {
+    console.error('Error fetching knowledge graph snapshot:', error);
+    return res.status(500).json({
+      error: 'Failed to load knowledge graph',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
-  const objectivesDigest = snapshot.objectives
-    .slice(0, 30)
-    .map((objective) => {
-      const tags = objective.tags.length > 0 ? ` tags: ${objective.tags.join(', ')}` : '';
-      const timeframe = objective.timeframe ? ` timeframe: ${objective.timeframe}` : '';
-      return `• ${objective.text} (status: ${objective.status}, priority: ${objective.priority}${timeframe}${tags})`;
-    })
-    .join('\n');
+// POST /api/objectives/brain
+objectivesRouter.post('/brain', async (req: Request, res: Response) => {
+  try {
+    const { question } = brainQuerySchema.parse(req.body);
+    const snapshot = await getKnowledgeGraphSnapshot();
+    const result = await generateBrainResponse(question, snapshot);
+
+    return res.json({
+      ...formatBrainAnswer(result),
+      totalObjectives: snapshot.objectives.length,
+      totalRelationships: snapshot.relationships.length,
+    });
+  } catch (error) {
+    console.error('Error generating brain response:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
 
-  const relationshipsDigest = snapshot.relationships
-    .slice(0, 60)
-    .map((rel) => `${rel.type} ${rel.fromId} -> ${rel.toId}${rel.rationale ? ` (${rel.rationale})` : ''}`)
-    .join('\n');
+    return res.status(500).json({
+      error: 'Failed to produce answer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-  const prompt = `You are the strategic memory for Visium. Users will ask about the current state of their objectives. Base your answer strictly on the provided objectives and relationships. Provide direct, actionable responses.
+// POST /api/objectives/brain/stream
+objectivesRouter.post('/brain/stream', async (req: Request, res: Response) => {
+  const parsed = brainQuerySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Validation error', details: parsed.error.errors });
+  }
 
-Objectives:\n${objectivesDigest}
+  return streamBrainAnswer(parsed.data.question, res);
+});
 
-Connections:\n${relationshipsDigest || 'none recorded yet'}
+async function handleReviewDecision(req: Request, res: Response, reviewState: ObjectiveReviewState) {
+  const objectiveId = req.params.id;
 
-Question: ${question}
+  if (!objectiveId) {
+    return res.status(400).json({ error: 'Objective id is required' });
+  }
 
-Respond with:
-- A focused answer (2-4 sentences)
-- 2-3 suggested next actions when applicable
-- Call out data gaps if the graph lacks enough information.`;
+  try {
+    const objective = await setObjectiveReviewState(objectiveId, reviewState, requestAudit(req, 'review'));
+    return res.json({ objective: formatObjectiveForResponse(objective) });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return res.status(404).json({ error: 'Objective not found' });
+    }
 
-  return generateBrainInsight(prompt);
+    console.error('Error recording review decision:', error);
+    return res.status(500).json({
+      error: 'Failed to record review decision',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
 }
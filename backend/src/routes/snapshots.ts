@@ -0,0 +1,149 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import {
+  createGraphSnapshot,
+  deleteGraphSnapshot,
+  getCurrentGraphState,
+  getGraphSnapshotById,
+  listGraphSnapshots,
+} from '../database.js';
+import { diffGraphStates } from '../snapshots/graphDiff.js';
+
+export const snapshotsRouter = Router();
+
+// Diff endpoints accept this in place of a snapshot id to compare against the live graph
+const CURRENT_STATE = 'now';
+
+const createSnapshotSchema = z.object({
+  name: z.string().trim().min(1, 'Name the snapshot').max(200),
+  note: z.string().trim().max(2000).optional().nullable(),
+});
+
+const listSnapshotsSchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50)),
+});
+
+const diffSchema = z.object({
+  from: z.string().min(1, 'from is required'),
+  to: z.string().min(1).default(CURRENT_STATE),
+});
+
+// GET /api/snapshots
+snapshotsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const { limit } = listSnapshotsSchema.parse(req.query);
+    const snapshots = await listGraphSnapshots(limit);
+    return res.json({ snapshots, total: snapshots.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error listing graph snapshots:', error);
+    return res.status(500).json({
+      error: 'Failed to list snapshots',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// POST /api/snapshots
+snapshotsRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { name, note } = createSnapshotSchema.parse(req.body ?? {});
+    const snapshot = await createGraphSnapshot(name, note || null);
+
+    console.log(
+      `📸 [SNAPSHOT] Saved "${snapshot.name}" with ${snapshot.objectiveCount} objectives and ${snapshot.relationshipCount} relationships`,
+    );
+    return res.status(201).json({ snapshot });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error creating graph snapshot:', error);
+    return res.status(500).json({
+      error: 'Failed to save snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/snapshots/diff?from=<id>&to=<id|now>
+snapshotsRouter.get('/diff', async (req: Request, res: Response) => {
+  try {
+    const { from, to } = diffSchema.parse(req.query);
+    const [fromSide, toSide] = await Promise.all([resolveDiffSide(from), resolveDiffSide(to)]);
+    if (!fromSide || !toSide) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    return res.json({
+      from: fromSide.snapshot,
+      to: toSide.snapshot,
+      diff: diffGraphStates(fromSide.state, toSide.state),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    console.error('Error diffing graph snapshots:', error);
+    return res.status(500).json({
+      error: 'Failed to compare snapshots',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// GET /api/snapshots/:id
+snapshotsRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const snapshot = await getGraphSnapshotById(req.params.id);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    return res.json({ snapshot });
+  } catch (error) {
+    console.error('Error fetching graph snapshot:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// DELETE /api/snapshots/:id
+snapshotsRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteGraphSnapshot(req.params.id);
+    return res.json({ id: req.params.id });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    console.error('Error deleting graph snapshot:', error);
+    return res.status(500).json({
+      error: 'Failed to delete snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+async function resolveDiffSide(ref: string) {
+  if (ref === CURRENT_STATE) {
+    return { snapshot: { id: CURRENT_STATE, name: 'Now', createdAt: new Date() }, state: await getCurrentGraphState() };
+  }
+
+  const snapshot = await getGraphSnapshotById(ref);
+  return snapshot
+    ? { snapshot: { id: snapshot.id, name: snapshot.name, createdAt: snapshot.createdAt }, state: snapshot.state }
+    : null;
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { matchConfidence, matchPriority, matchStatus, parseLevel } from '../extraction/normalization.js';
+
+// Strict counterparts of the extraction normalisers for user input: empty values
+// mean "not provided", anything else must be recognised or the request fails.
+function aliasField<T>(label: string, match: (value: string) => T | null) {
+  return z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      const matched = match(value);
+      if (matched === null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown ${label} "${value}"` });
+        return z.NEVER;
+      }
+      return matched;
+    });
+}
+
+export const statusField = aliasField('status', matchStatus);
+
+export const priorityField = aliasField('priority', matchPriority);
+
+export const levelField = aliasField('level', parseLevel);
+
+export const confidenceField = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  if (typeof value === 'string' && !value.trim()) return undefined;
+  const confidence = matchConfidence(value);
+  if (confidence === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Confidence must be a number or percentage' });
+    return z.NEVER;
+  }
+  return confidence;
+});
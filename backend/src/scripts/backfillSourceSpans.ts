@@ -0,0 +1,35 @@
+import {
+  getKnowledgeEntryById,
+  listEntryIdsMissingSourceSpans,
+  prisma,
+  saveObjectiveSourceSpans,
+} from '../database.js';
+import { locateMissingSourceSpans } from '../extraction/sourceSpans.js';
+
+// One-off: stores source offsets for objectives extracted before they were recorded at extraction time.
+async function main() {
+  const entryIds = await listEntryIdsMissingSourceSpans();
+  console.log(`🖍️ [SOURCE] ${entryIds.length} entries have objectives without source offsets`);
+
+  let located = 0;
+  for (const entryId of entryIds) {
+    const entry = await getKnowledgeEntryById(entryId);
+    if (!entry) continue;
+
+    const spans = locateMissingSourceSpans(entry);
+    if (spans.length === 0) continue;
+
+    await saveObjectiveSourceSpans(spans);
+    located += spans.length;
+    console.log(`🖍️ [SOURCE] Located ${spans.length} excerpts in entry ${entry.id}`);
+  }
+
+  console.log(`✅ [SOURCE] Backfilled ${located} source spans`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ [SOURCE] Source span backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -2,8 +2,13 @@ import express from 'express';
 import cors from 'cors';
 import { config } from './config.js';
 import { objectivesRouter } from './routes/objectives.js';
+import { conversationsRouter } from './routes/conversations.js';
+import { extractionJobsRouter } from './routes/extractionJobs.js';
+import { entriesRouter } from './routes/entries.js';
+import { snapshotsRouter } from './routes/snapshots.js';
+import { startExtractionWorker } from './jobs/extractionWorker.js';
 import { prisma } from './database.js';
-import { ollamaClient } from './llm/ollamaClient.js';
+import { llmProvider } from './llm/provider.js';
 
 const app = express();
 
@@ -12,6 +17,10 @@ app.use(express.json());
 
 // Routes
 app.use('/api/objectives', objectivesRouter);
+app.use('/api/conversations', conversationsRouter);
+app.use('/api/extraction-jobs', extractionJobsRouter);
+app.use('/api/entries', entriesRouter);
+app.use('/api/snapshots', snapshotsRouter);
 
 app.get('/api/health', async (req, res) => {
   try {
@@ -19,15 +28,16 @@ app.get('/api/health', async (req, res) => {
     await prisma.$queryRaw`SELECT 1`;
     const dbStatus = 'connected';
     
-    // Check Ollama availability
-    const ollamaStatus = await ollamaClient.healthCheck() ? 'available' : 'unavailable';
+    // Check LLM provider availability
+    const llmStatus = await llmProvider.healthCheck() ? 'available' : 'unavailable';
     
     res.json({
       status: 'ok',
       timestamp: new Date().toISOString(),
       version: '1.0.0',
       database: dbStatus,
-      llm: ollamaStatus
+      llm: llmStatus,
+      llmProvider: llmProvider.name,
     });
   } catch (error) {
     res.status(500).json({
@@ -46,9 +56,11 @@ const PORT = config.PORT;
 app.listen(PORT, () => {
   console.log('\n🚀 ===== VISIUM BACKEND STARTED =====');
   console.log(`🌐 Server running on http://localhost:${PORT}`);
+  console.log(`🔌 LLM provider: ${llmProvider.name}`);
   console.log(`🦙 Ollama URL: ${config.OLLAMA_URL}`);
-  console.log(`🤖 Model: ${config.OLLAMA_MODEL}`);
+  console.log(`🤖 Model: ${llmProvider.modelName}`);
   console.log(`💾 Database: ${config.DATABASE_URL.includes('@') ? config.DATABASE_URL.split('@')[1] : 'configured'}`);
-  console.log(`🔗 Embeddings: ${config.EMBEDDINGS_ENABLED ? 'enabled' : 'disabled (using keyword matching)'}`);
+  console.log(`🔗 Embeddings: ${config.EMBEDDINGS_ENABLED ? `enabled (${config.OLLAMA_EMBEDDING_MODEL})` : 'disabled (using keyword matching)'}`);
   console.log('📊 Ready to process requests...\n');
+  void startExtractionWorker();
 });
\ No newline at end of file
@@ -0,0 +1,98 @@
+import type { ObjectiveLevel, ObjectivePriority, ObjectiveRelationshipType, ObjectiveStatus } from '@prisma/client';
+
+export interface SnapshotObjective {
+  id: string;
+  text: string;
+  status: ObjectiveStatus;
+  priority: ObjectivePriority;
+  level: ObjectiveLevel | null;
+  parentId: string | null;
+  // Own key-result progress at the time of the snapshot
+  progress: number | null;
+}
+
+export interface SnapshotRelationship {
+  id: string;
+  fromId: string;
+  toId: string;
+  type: ObjectiveRelationshipType;
+}
+
+export interface GraphState {
+  objectives: SnapshotObjective[];
+  relationships: SnapshotRelationship[];
+}
+
+const TRACKED_FIELDS = ['text', 'status', 'priority', 'level', 'parentId', 'progress'] as const;
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface ObjectiveChange {
+  id: string;
+  text: string;
+  changes: Partial<Record<TrackedField, { from: unknown; to: unknown }>>;
+}
+
+export interface RelationshipDiffItem extends SnapshotRelationship {
+  fromText: string | null;
+  toText: string | null;
+}
+
+export interface GraphDiff {
+  objectives: {
+    added: SnapshotObjective[];
+    removed: SnapshotObjective[];
+    changed: ObjectiveChange[];
+  };
+  relationships: {
+    added: RelationshipDiffItem[];
+    removed: RelationshipDiffItem[];
+  };
+}
+
+/**
+ * Compares two graph states. Relationships are matched by endpoints and type
+ * rather than id, so a link re-pointed by a merge shows as removed and added.
+ */
+export function diffGraphStates(from: GraphState, to: GraphState): GraphDiff {
+  const before = new Map(from.objectives.map((objective) => [objective.id, objective]));
+  const after = new Map(to.objectives.map((objective) => [objective.id, objective]));
+
+  const changed: ObjectiveChange[] = [];
+  for (const [id, next] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+
+    const changes: ObjectiveChange['changes'] = {};
+    for (const field of TRACKED_FIELDS) {
+      if ((previous[field] ?? null) !== (next[field] ?? null)) {
+        changes[field] = { from: previous[field] ?? null, to: next[field] ?? null };
+      }
+    }
+    if (Object.keys(changes).length > 0) changed.push({ id, text: next.text, changes });
+  }
+
+  const textOf = (id: string) => after.get(id)?.text ?? before.get(id)?.text ?? null;
+  const describe = (relationship: SnapshotRelationship): RelationshipDiffItem => ({
+    ...relationship,
+    fromText: textOf(relationship.fromId),
+    toText: textOf(relationship.toId),
+  });
+  const previousLinks = new Map(from.relationships.map((relationship) => [relationshipKey(relationship), relationship]));
+  const nextLinks = new Map(to.relationships.map((relationship) => [relationshipKey(relationship), relationship]));
+
+  return {
+    objectives: {
+      added: to.objectives.filter((objective) => !before.has(objective.id)),
+      removed: from.objectives.filter((objective) => !after.has(objective.id)),
+      changed,
+    },
+    relationships: {
+      added: Array.from(nextLinks).filter(([key]) => !previousLinks.has(key)).map(([, link]) => describe(link)),
+      removed: Array.from(previousLinks).filter(([key]) => !nextLinks.has(key)).map(([, link]) => describe(link)),
+    },
+  };
+}
+
+function relationshipKey({ fromId, toId, type }: SnapshotRelationship): string {
+  return `${fromId}|${toId}|${type}`;
+}
@@ -1,16 +1,24 @@
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import AddKnowledge from './pages/AddKnowledge';
 import Refine from './pages/Refine';
 import Knowledge from './pages/Knowledge';
 import About from './pages/About';
+import Ask from './pages/Ask';
+import Sources from './pages/Sources';
+import Outline from './pages/Outline';
+import Trash from './pages/Trash';
+import Snapshots from './pages/Snapshots';
 import type { ObjectiveWithRelated, Ticket } from './types/objectives';
+import { ticketStatusFromReviewState, toTicket } from './utils/tickets';
+import { getActorName, setActorName } from './utils/api';
 import './App.css';
 
-type Tab = 'capture' | 'refine' | 'explore' | 'about';
+type Tab = 'capture' | 'refine' | 'explore' | 'outline' | 'snapshots' | 'sources' | 'trash' | 'ask' | 'about';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('capture');
   const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [actorDraft, setActorDraft] = useState(getActorName);
 
   const hydrateTickets = useCallback(async (ids: string[]) => {
     if (ids.length === 0) return;
@@ -40,6 +48,8 @@ function App() {
             text: detail.text,
             createdAt: detail.createdAt,
             updatedAt: detail.updatedAt,
+            reviewState: detail.reviewState,
+            status: ticketStatusFromReviewState(detail.reviewState),
             related: detail.related ?? ticket.related,
             tags: mergedTags,
           };
@@ -50,11 +60,49 @@ function App() {
     }
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReviewQueue = async () => {
+      try {
+        const response = await fetch('http://localhost:3001/api/objectives/review');
+        if (!response.ok) {
+          console.warn('Failed to load review queue');
+          return;
+        }
+
+        const data: { objectives: ObjectiveWithRelated[] } = await response.json();
+        if (cancelled) return;
+
+        setTickets((prev) => {
+          const knownIds = new Set(prev.map((ticket) => ticket.id));
+          const pending = data.objectives
+            .filter((objective) => !knownIds.has(objective.id))
+            .map((objective) => toTicket(objective));
+          return [...prev, ...pending];
+        });
+      } catch (error) {
+        console.error('Error loading review queue', error);
+      }
+    };
+
+    void loadReviewQueue();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const tabs = useMemo(
     () => [
       { id: 'capture' as const, label: 'Capture' },
       { id: 'refine' as const, label: 'Refine' },
       { id: 'explore' as const, label: 'Explore' },
+      { id: 'outline' as const, label: 'Outline' },
+      { id: 'snapshots' as const, label: 'Snapshots' },
+      { id: 'sources' as const, label: 'Sources' },
+      { id: 'trash' as const, label: 'Trash' },
+      { id: 'ask' as const, label: 'Ask' },
       { id: 'about' as const, label: 'About' },
     ],
     [],
@@ -62,13 +110,24 @@ function App() {
 
   const handleProcessed = useCallback(
     (nextTickets: Ticket[]) => {
-      setTickets(nextTickets);
+      setTickets((prev) => {
+        const nextIds = new Set(nextTickets.map((ticket) => ticket.id));
+        const stillPending = prev.filter((ticket) => ticket.status === 'pending' && !nextIds.has(ticket.id));
+        return [...nextTickets, ...stillPending];
+      });
       setActiveTab('refine');
       void hydrateTickets(nextTickets.map((ticket) => ticket.id));
     },
     [hydrateTickets],
   );
 
+  // Trimmed once the field is left so the input and the stored X-Actor value always agree
+  const handleActorCommit = useCallback(() => {
+    const trimmed = actorDraft.trim();
+    setActorDraft(trimmed);
+    setActorName(trimmed);
+  }, [actorDraft]);
+
   const handleUpdateTicket = useCallback((index: number, updater: (ticket: Ticket) => Ticket) => {
     setTickets((prev) =>
       prev.map((ticket, ticketIndex) => (ticketIndex === index ? updater(ticket) : ticket)),
@@ -96,6 +155,21 @@ function App() {
               </button>
             ))}
           </nav>
+          <label className="top-nav__actor">
+            <span className="top-nav__actor-label">Signed as</span>
+            <input
+              className="top-nav__actor-input"
+              value={actorDraft}
+              onChange={(event) => setActorDraft(event.target.value)}
+              onBlur={handleActorCommit}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') event.currentTarget.blur();
+              }}
+              placeholder="Your name"
+              maxLength={120}
+              title="Recorded as the author of your changes in the history timeline"
+            />
+          </label>
         </div>
       </header>
 
@@ -110,6 +184,11 @@ function App() {
           <div className="container main__content">
             {activeTab === 'capture' && <AddKnowledge onProcessed={handleProcessed} />}
             {activeTab === 'refine' && <Refine tickets={tickets} onUpdate={handleUpdateTicket} />}
+            {activeTab === 'outline' && <Outline />}
+            {activeTab === 'snapshots' && <Snapshots />}
+            {activeTab === 'sources' && <Sources />}
+            {activeTab === 'trash' && <Trash />}
+            {activeTab === 'ask' && <Ask />}
           </div>
         )}
       </main>
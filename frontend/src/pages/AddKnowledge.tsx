@@ -1,11 +1,45 @@
-import { useMemo, useState } from 'react';
-import type { ObjectiveWithRelated, Ticket } from '../types/objectives';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  ExtractionJobStatus,
+  ObjectiveWithRelated,
+  PossibleDuplicate,
+  SuggestedRelationship,
+  Ticket,
+} from '../types/objectives';
+import { toTicket } from '../utils/tickets';
+import { apiFetch } from '../utils/api';
 
 interface ExtractResponse {
+  entryId: string | null;
   objectives: ObjectiveWithRelated[];
   totalInserted: number;
+  possibleDuplicates?: PossibleDuplicate[];
+  suggestedRelationships?: SuggestedRelationship[];
 }
 
+interface ExtractionJob {
+  id: string;
+  status: ExtractionJobStatus;
+  tags: string[];
+  result: ExtractResponse | null;
+  error: string | null;
+}
+
+const JOBS_API = 'http://localhost:3001/api/extraction-jobs';
+const ENTRIES_API = 'http://localhost:3001/api/entries';
+const PENDING_JOB_STORAGE_KEY = 'visium-pending-extraction-job';
+const JOB_POLL_INTERVAL_MS = 1500;
+const SUPPORTED_UPLOAD_EXTENSIONS = ['.md', '.markdown', '.txt', '.docx', '.pdf', '.vtt', '.srt'];
+
+const JOB_STATUS_LABELS: Record<ExtractionJobStatus, string> = {
+  QUEUED: 'Queued…',
+  EXTRACTING: 'Extracting objectives…',
+  DEDUPLICATING: 'Checking for duplicates…',
+  PERSISTING: 'Saving to the graph…',
+  DONE: 'Done',
+  FAILED: 'Failed',
+};
+
 interface AddKnowledgeProps {
   onProcessed: (tickets: Ticket[]) => void;
 }
@@ -24,16 +58,133 @@ export default function AddKnowledge({ onProcessed }: AddKnowledgeProps) {
     [],
   );
 
-  const handleSubmit = async (event: React.FormEvent) => {
-    event.preventDefault();
-    if (!text.trim()) return;
+  const [jobStatus, setJobStatus] = useState<ExtractionJobStatus | null>(null);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<PossibleDuplicate[]>([]);
+  const [duplicateEntryId, setDuplicateEntryId] = useState<string | null>(null);
+  const [addingDuplicateKey, setAddingDuplicateKey] = useState<string | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const pollTimerRef = useRef<number | null>(null);
+  const mountedRef = useRef(true);
+  const onProcessedRef = useRef(onProcessed);
+
+  useEffect(() => {
+    onProcessedRef.current = onProcessed;
+  }, [onProcessed]);
+
+  const finishJob = useCallback(
+    (job: ExtractionJob) => {
+      localStorage.removeItem(PENDING_JOB_STORAGE_KEY);
+      setLoading(false);
+      setJobStatus(null);
+
+      if (job.status === 'FAILED' || !job.result) {
+        setError(job.error || 'Failed to process your input');
+        return;
+      }
+
+      const data = job.result;
+      const preparedTickets = data.objectives.map<Ticket>((objective) =>
+        toTicket(objective, job.tags, data.suggestedRelationships ?? []),
+      );
+      const heldBack = data.possibleDuplicates ?? [];
+      setPossibleDuplicates(heldBack);
+      setDuplicateEntryId(data.entryId);
+
+      if (preparedTickets.length === 0) {
+        if (heldBack.length === 0) {
+          setError('No new objectives were extracted from your input. Try adding more specific goals or plans.');
+        }
+      } else {
+        onProcessedRef.current(preparedTickets);
+        setLastProcessedCount(preparedTickets.length);
+      }
+    },
+    [],
+  );
+
+  const pollJob = useCallback(
+    async (jobId: string) => {
+      pollTimerRef.current = null;
+      try {
+        const response = await fetch(`${JOBS_API}/${jobId}`);
+        if (response.status === 404) {
+          localStorage.removeItem(PENDING_JOB_STORAGE_KEY);
+          setLoading(false);
+          setJobStatus(null);
+          return;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const { job }: { job: ExtractionJob } = await response.json();
+        if (!mountedRef.current) return;
+        if (job.status === 'DONE' || job.status === 'FAILED') {
+          finishJob(job);
+          return;
+        }
+        setJobStatus(job.status);
+      } catch (err) {
+        // Keep polling through transient network errors; the job keeps running server-side
+        console.warn('Failed to poll extraction job', err);
+      }
+      if (mountedRef.current) {
+        pollTimerRef.current = window.setTimeout(() => void pollJob(jobId), JOB_POLL_INTERVAL_MS);
+      }
+    },
+    [finishJob],
+  );
+
+  // Resume a job that was still running when the page was refreshed or the tab was left
+  useEffect(() => {
+    mountedRef.current = true;
+    const pendingJobId = localStorage.getItem(PENDING_JOB_STORAGE_KEY);
+    if (pendingJobId) {
+      setLoading(true);
+      setJobStatus('QUEUED');
+      void pollJob(pendingJobId);
+    }
 
+    return () => {
+      mountedRef.current = false;
+      if (pollTimerRef.current !== null) window.clearTimeout(pollTimerRef.current);
+    };
+  }, [pollJob]);
+
+  const queueJob = async (request: () => Promise<Response>) => {
     setLoading(true);
     setError(null);
     setLastProcessedCount(null);
+    setPossibleDuplicates([]);
+    setDuplicateEntryId(null);
 
     try {
-      const response = await fetch('http://localhost:3001/api/objectives/extract-and-store', {
+      const response = await request();
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || `HTTP ${response.status}`);
+      }
+
+      const { job }: { job: ExtractionJob } = await response.json();
+      localStorage.setItem(PENDING_JOB_STORAGE_KEY, job.id);
+      setJobStatus(job.status);
+      setText('');
+      setTags([]);
+      setTagInput('');
+      void pollJob(job.id);
+    } catch (err) {
+      console.error('Error submitting text:', err);
+      setError(err instanceof Error ? err.message : 'Failed to process your input');
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+
+    await queueJob(() =>
+      apiFetch(JOBS_API, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -42,35 +193,72 @@ export default function AddKnowledge({ onProcessed }: AddKnowledgeProps) {
           text: text.trim(),
           tags,
         }),
-      });
+      }),
+    );
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}`);
-      }
+  const uploadFile = async (file: File) => {
+    if (loading) return;
 
-      const data: ExtractResponse = await response.json();
-      const preparedTickets = data.objectives.map<Ticket>((objective) => ({
-        ...objective,
-        originalText: objective.text,
-        status: 'pending',
-        tags: Array.from(new Set([...(objective.tags ?? []), ...tags])),
-      }));
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!SUPPORTED_UPLOAD_EXTENSIONS.includes(extension)) {
+      setError(`Unsupported file type. Upload one of: ${SUPPORTED_UPLOAD_EXTENSIONS.join(', ')}`);
+      return;
+    }
 
-      if (preparedTickets.length === 0) {
-        setError('No new objectives were extracted from your input. Try adding more specific goals or plans.');
-      } else {
-        onProcessed(preparedTickets);
-        setLastProcessedCount(preparedTickets.length);
-        setText('');
-        setTags([]);
-        setTagInput('');
-      }
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('tags', JSON.stringify(tags));
+
+    await queueJob(() => apiFetch(`${JOBS_API}/upload`, { method: 'POST', body: formData }));
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!loading) setDragActive(true);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    const file = event.dataTransfer.files[0];
+    if (file) void uploadFile(file);
+  };
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) void uploadFile(file);
+  };
+
+  const dismissDuplicate = (key: string) => {
+    setPossibleDuplicates((prev) => prev.filter((duplicate) => duplicate.draft.key !== key));
+  };
+
+  const addDuplicateAnyway = async (duplicate: PossibleDuplicate) => {
+    if (!duplicateEntryId) return;
+    setAddingDuplicateKey(duplicate.draft.key);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${ENTRIES_API}/${duplicateEntryId}/objectives`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(duplicate.draft),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.message || data.error || `HTTP ${response.status}`);
+
+      onProcessedRef.current([toTicket(data.objective as ObjectiveWithRelated)]);
+      setLastProcessedCount((count) => (count ?? 0) + 1);
+      dismissDuplicate(duplicate.draft.key);
     } catch (err) {
-      console.error('Error submitting text:', err);
-      setError(err instanceof Error ? err.message : 'Failed to process your input');
+      console.error('Failed to add possible duplicate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the objective');
     } finally {
-      setLoading(false);
+      setAddingDuplicateKey(null);
     }
   };
 
@@ -135,6 +323,36 @@ export default function AddKnowledge({ onProcessed }: AddKnowledgeProps) {
               disabled={loading}
               rows={10}
             />
+            <div
+              className={`intake__dropzone${dragActive ? ' intake__dropzone--active' : ''}`}
+              onDragOver={handleDragOver}
+              onDragLeave={() => setDragActive(false)}
+              onDrop={handleDrop}
+            >
+              <p>
+                Drop a document here or{' '}
+                <button
+                  type="button"
+                  className="intake__dropzone-browse"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading}
+                >
+                  browse
+                </button>
+              </p>
+              <small>
+                Markdown, plain text, DOCX, PDF with a text layer, or VTT/SRT meeting transcripts · tags below apply to
+                uploads too
+              </small>
+              <input
+                ref={fileInputRef}
+                className="sr-only"
+                type="file"
+                accept={SUPPORTED_UPLOAD_EXTENSIONS.join(',')}
+                onChange={handleFileSelected}
+                disabled={loading}
+              />
+            </div>
             <div className="intake__tags">
               {tags.map((tag) => (
                 <span key={tag} className="intake__tag">
@@ -162,7 +380,7 @@ export default function AddKnowledge({ onProcessed }: AddKnowledgeProps) {
             </div>
             <div className="intake__actions">
               <button type="submit" disabled={loading || !text.trim()}>
-                {loading ? 'Processing…' : 'Send to Visium'}
+                {loading ? (jobStatus ? JOB_STATUS_LABELS[jobStatus] : 'Processing…') : 'Send to Visium'}
               </button>
               {text && (
                 <button type="button" className="intake__reset" onClick={handleReset} disabled={loading}>
@@ -181,6 +399,46 @@ export default function AddKnowledge({ onProcessed }: AddKnowledgeProps) {
         </div>
       )}
 
+      {possibleDuplicates.length > 0 && (
+        <div className="intake__duplicates" role="status">
+          <h3>
+            {possibleDuplicates.length} possible duplicate{possibleDuplicates.length === 1 ? '' : 's'} held back
+          </h3>
+          <p>These statements closely match objectives already in the graph. Add them only if they are distinct.</p>
+          <ul>
+            {possibleDuplicates.map((duplicate) => (
+              <li key={duplicate.draft.key} className="intake__duplicate">
+                <p>{duplicate.draft.text}</p>
+                <ul className="intake__duplicate-matches">
+                  {duplicate.matches.map((match) => (
+                    <li key={match.id}>
+                      Looks like “{match.text}” · {Math.round(match.score * 100)}% {match.mode} match
+                    </li>
+                  ))}
+                </ul>
+                <div className="intake__duplicate-actions">
+                  <button
+                    type="button"
+                    onClick={() => void addDuplicateAnyway(duplicate)}
+                    disabled={!duplicateEntryId || addingDuplicateKey !== null}
+                  >
+                    {addingDuplicateKey === duplicate.draft.key ? 'Adding…' : 'Add anyway'}
+                  </button>
+                  <button
+                    type="button"
+                    className="intake__reset"
+                    onClick={() => dismissDuplicate(duplicate.draft.key)}
+                    disabled={addingDuplicateKey !== null}
+                  >
+                    Skip
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {showSuccess && (
         <div className="empty-state" role="status">
           <div className="empty-state__pulse" aria-hidden />
@@ -0,0 +1,357 @@
+import { useEffect, useRef, useState } from 'react';
+import type { BrainCitation, BrainContextObjective, BrainRelationshipCitation } from '../types/objectives';
+import { readServerSentEvents } from '../utils/sse';
+import { apiFetch } from '../utils/api';
+
+interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  status: 'streaming' | 'complete' | 'cancelled' | 'error';
+  citations?: BrainCitation[];
+  citedRelationships?: BrainRelationshipCitation[];
+  contextObjectives?: BrainContextObjective[];
+}
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+interface StoredMessage {
+  id: string;
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+  metadata: {
+    citations?: BrainCitation[];
+    citedRelationships?: BrainRelationshipCitation[];
+    contextObjectives?: BrainContextObjective[];
+  } | null;
+}
+
+const API_BASE = 'http://localhost:3001/api/conversations';
+const TITLE_MAX_LENGTH = 80;
+
+const CITATION_SPLIT_PATTERN = /(\[[OR]\d+(?:\s*,\s*[OR]\d+)*\])/;
+
+let messageCounter = 0;
+
+function nextMessageId() {
+  messageCounter += 1;
+  return `message-${messageCounter}`;
+}
+
+function describeContext(contextObjectives: BrainContextObjective[]) {
+  const matched = contextObjectives.filter((item) => item.reason === 'match').length;
+  const linked = contextObjectives.filter((item) => item.reason === 'neighbor').length;
+  const total = contextObjectives.length;
+  const label = `Grounded in ${total} objective${total === 1 ? '' : 's'}`;
+  if (matched === 0) return `${label} (most recent, nothing matched the question directly)`;
+  return `${label} (${matched} matched, ${linked} linked)`;
+}
+
+function toChatMessage(stored: StoredMessage): ChatMessage {
+  return {
+    id: stored.id,
+    role: stored.role === 'USER' ? 'user' : 'assistant',
+    content: stored.content,
+    status: 'complete',
+    citations: stored.metadata?.citations,
+    citedRelationships: stored.metadata?.citedRelationships,
+    contextObjectives: stored.metadata?.contextObjectives,
+  };
+}
+
+function toConversationTitle(question: string) {
+  return question.length > TITLE_MAX_LENGTH ? `${question.slice(0, TITLE_MAX_LENGTH - 1)}…` : question;
+}
+
+function renderWithCitations(content: string) {
+  return content.split(CITATION_SPLIT_PATTERN).map((part, index) =>
+    CITATION_SPLIT_PATTERN.test(part) ? (
+      <span key={index} className="ask__cite">
+        {part.slice(1, -1)}
+      </span>
+    ) : (
+      part
+    ),
+  );
+}
+
+export default function Ask() {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const loadConversations = async () => {
+    try {
+      const response = await fetch(API_BASE);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setConversations(data.conversations ?? []);
+    } catch (err) {
+      console.error('Failed to load conversations', err);
+    }
+  };
+
+  useEffect(() => {
+    void loadConversations();
+  }, []);
+
+  const openConversation = async (id: string) => {
+    if (streaming) return;
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE}/${id}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setConversationId(id);
+      setMessages((data.conversation.messages as StoredMessage[]).map(toChatMessage));
+    } catch (err) {
+      console.error('Failed to open conversation', err);
+      setError(err instanceof Error ? err.message : 'Failed to open conversation');
+    }
+  };
+
+  const startNewConversation = () => {
+    if (streaming) return;
+    setConversationId(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (streaming) return;
+    try {
+      const response = await apiFetch(`${API_BASE}/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setConversations((prev) => prev.filter((conversation) => conversation.id !== id));
+      if (conversationId === id) startNewConversation();
+    } catch (err) {
+      console.error('Failed to delete conversation', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
+  };
+
+  const ensureConversation = async (firstQuestion: string) => {
+    if (conversationId) return conversationId;
+    const response = await apiFetch(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: toConversationTitle(firstQuestion) }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    setConversationId(data.conversation.id);
+    return data.conversation.id as string;
+  };
+
+  const updateMessage = (id: string, updater: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => prev.map((message) => (message.id === id ? updater(message) : message)));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || streaming) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const answerId = nextMessageId();
+
+    setMessages((prev) => [
+      ...prev,
+      { id: nextMessageId(), role: 'user', content: trimmed, status: 'complete' },
+      { id: answerId, role: 'assistant', content: '', status: 'streaming' },
+    ]);
+    setQuestion('');
+    setError(null);
+    setStreaming(true);
+
+    try {
+      const activeConversationId = await ensureConversation(trimmed);
+      const response = await apiFetch(`${API_BASE}/${activeConversationId}/messages/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: trimmed }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      for await (const sse of readServerSentEvents(response.body)) {
+        const payload = JSON.parse(sse.data);
+        if (sse.event === 'meta') {
+          updateMessage(answerId, (message) => ({ ...message, contextObjectives: payload.contextObjectives ?? [] }));
+        } else if (sse.event === 'token') {
+          updateMessage(answerId, (message) => ({ ...message, content: message.content + payload.text }));
+        } else if (sse.event === 'done') {
+          updateMessage(answerId, (message) => ({
+            ...message,
+            content: payload.answer,
+            status: 'complete',
+            citations: payload.citations ?? [],
+            citedRelationships: payload.citedRelationships ?? [],
+            contextObjectives: payload.contextObjectives ?? message.contextObjectives,
+          }));
+        } else if (sse.event === 'error') {
+          throw new Error(payload.message || payload.error || 'Failed to produce answer');
+        }
+      }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        updateMessage(answerId, (message) => ({ ...message, status: 'cancelled' }));
+      } else {
+        console.error('Brain stream error', err);
+        updateMessage(answerId, (message) => ({ ...message, status: 'error' }));
+        setError(err instanceof Error ? err.message : 'Failed to produce answer');
+      }
+    } finally {
+      controllerRef.current = null;
+      setStreaming(false);
+      void loadConversations();
+    }
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+  };
+
+  return (
+    <section className="ask">
+      <header className="ask__header">
+        <span className="ask__eyebrow">Ask</span>
+        <h2>Question the objective graph</h2>
+        <p>Visium answers from the objectives and relationships you have captured, streaming as it thinks.</p>
+      </header>
+
+      <div className="ask__layout">
+        <aside className="ask__conversations" aria-label="Conversations">
+          <button type="button" className="tickets__secondary" onClick={startNewConversation} disabled={streaming}>
+            New conversation
+          </button>
+          {conversations.length === 0 ? (
+            <p className="ask__empty">No saved conversations yet.</p>
+          ) : (
+            <ul>
+              {conversations.map((conversation) => (
+                <li
+                  key={conversation.id}
+                  className={`ask__conversation${conversation.id === conversationId ? ' ask__conversation--active' : ''}`}
+                >
+                  <button type="button" onClick={() => openConversation(conversation.id)} disabled={streaming}>
+                    <span>{conversation.title}</span>
+                    <small>
+                      {conversation.messageCount} message{conversation.messageCount === 1 ? '' : 's'} ·{' '}
+                      {new Date(conversation.updatedAt).toLocaleDateString()}
+                    </small>
+                  </button>
+                  <button
+                    type="button"
+                    className="ask__conversation-delete"
+                    aria-label={`Delete conversation ${conversation.title}`}
+                    onClick={() => deleteConversation(conversation.id)}
+                    disabled={streaming}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+
+        <div className="ask__panel">
+          <div className="ask__messages" aria-live="polite">
+            {messages.length === 0 && (
+              <p className="ask__empty">Try “What are our current growth objectives?” or “What is blocking the launch?”</p>
+            )}
+            {messages.map((message) => (
+              <article key={message.id} className={`ask__message ask__message--${message.role}`}>
+                <p>
+                  {message.content
+                    ? renderWithCitations(message.content)
+                    : message.status === 'streaming'
+                    ? 'Thinking…'
+                    : ''}
+                </p>
+                {((message.citations?.length ?? 0) > 0 || (message.citedRelationships?.length ?? 0) > 0) && (
+                  <ul className="ask__sources" aria-label="Sources">
+                    {message.citations?.map((citation) => (
+                      <li key={citation.ref}>
+                        <span className="ask__cite">{citation.ref}</span>
+                        <span>{citation.text}</span>
+                        {citation.status && <small>{citation.status.replace(/_/g, ' ')}</small>}
+                      </li>
+                    ))}
+                    {message.citedRelationships?.map((relationship) => (
+                      <li key={relationship.ref}>
+                        <span className="ask__cite">{relationship.ref}</span>
+                        <span>
+                          {relationship.fromText ?? relationship.fromId} → {relationship.type.replace(/_/g, ' ')} →{' '}
+                          {relationship.toText ?? relationship.toId}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {message.contextObjectives && message.contextObjectives.length > 0 && (
+                  <small title={message.contextObjectives.map((item) => item.text).join('\n')}>
+                    {describeContext(message.contextObjectives)}
+                  </small>
+                )}
+                {message.status === 'cancelled' && <small>Cancelled</small>}
+                {message.status === 'error' && <small>Answer failed</small>}
+              </article>
+            ))}
+          </div>
+
+          <form className="ask__form" onSubmit={handleSubmit}>
+            <label className="sr-only" htmlFor="ask-question">
+              Question
+            </label>
+            <textarea
+              id="ask-question"
+              rows={3}
+              value={question}
+              placeholder="Ask about priorities, blockers, owners…"
+              onChange={(event) => setQuestion(event.target.value)}
+              disabled={streaming}
+            />
+            <div className="ask__actions">
+              <button type="submit" disabled={streaming || question.trim().length < 5}>
+                {streaming ? 'Answering…' : 'Ask Visium'}
+              </button>
+              {streaming && (
+                <button type="button" className="tickets__secondary" onClick={handleCancel}>
+                  Stop
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {error && (
+        <div className="alert" role="alert">
+          <span className="alert__badge">Error</span>
+          <p>{error}</p>
+        </div>
+      )}
+    </section>
+  );
+}
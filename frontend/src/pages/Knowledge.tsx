@@ -13,6 +13,8 @@ import ReactFlow, {
   type XYPosition,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import type { AuditEvent } from '../types/objectives';
+import { apiFetch } from '../utils/api';
 
 interface GraphObjective {
   id: string;
@@ -57,6 +59,24 @@ type RelationshipType = (typeof RELATIONSHIP_TYPES)[number];
 const reactFlowStyle: CSSProperties = { width: '100%', height: '100%' };
 const LAYOUT_STORAGE_KEY = 'visium-explore-layout';
 
+const MERGE_CANDIDATE_LIMIT = 8;
+
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2),
+  );
+}
+
+// Rough keyword overlap used only to float likely duplicates to the top of the merge picker
+function overlapScore(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter((word) => b.has(word)).length;
+  const union = new Set([...a, ...b]).size;
+  return union === 0 ? 0 : shared / union;
+}
+
 function statusColor(status: string): string {
   switch (status?.toUpperCase()) {
     case 'COMPLETE':
@@ -95,6 +115,98 @@ const defaultEdgeOptions: Partial<FlowEdge> = {
   },
 };
 
+const HISTORY_VALUE_LENGTH = 80;
+
+const UPDATE_SUMMARIES: Record<AuditEvent['entityType'], string> = {
+  OBJECTIVE: 'Updated',
+  RELATIONSHIP: 'Updated a link',
+  KEY_RESULT: 'Updated a key result',
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = Array.isArray(value) ? value.join(', ') || '—' : String(value);
+  return text.length > HISTORY_VALUE_LENGTH ? `${text.slice(0, HISTORY_VALUE_LENGTH)}…` : text;
+}
+
+function describeAuditEvent(event: AuditEvent): { summary: string; changes: string[] } {
+  const record = event.after ?? event.before ?? {};
+  if (event.entityType === 'RELATIONSHIP') {
+    const type = String(record.type ?? 'link').replace('_', ' ');
+    if (event.action === 'CREATE') return { summary: `Linked (${type})`, changes: [] };
+    if (event.action === 'DELETE') return { summary: `Removed ${type} link`, changes: [] };
+  } else if (event.entityType === 'KEY_RESULT') {
+    const metric = String(record.metric ?? 'key result');
+    if (event.action === 'CREATE') return { summary: `Added key result "${metric}"`, changes: [] };
+    if (event.action === 'DELETE') return { summary: `Removed key result "${metric}"`, changes: [] };
+  } else {
+    if (event.action === 'CREATE') return { summary: 'Created', changes: [] };
+    if (event.action === 'DELETE') return { summary: 'Permanently deleted', changes: [] };
+    if (event.after?.mergedIntoId) return { summary: 'Merged into another objective', changes: [] };
+    if (event.after && 'deletedAt' in event.after) {
+      return { summary: event.after.deletedAt ? 'Moved to trash' : 'Restored from trash', changes: [] };
+    }
+  }
+
+  const changes = Object.keys(event.after ?? {}).map(
+    (field) => `${field}: ${formatAuditValue(event.before?.[field])} → ${formatAuditValue(event.after?.[field])}`,
+  );
+  return { summary: UPDATE_SUMMARIES[event.entityType], changes };
+}
+
+function ObjectiveHistory({ objectiveId, refreshKey }: { objectiveId: string; refreshKey: unknown }) {
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`http://localhost:3001/api/objectives/${objectiveId}/history`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json() as Promise<{ events: AuditEvent[] }>;
+      })
+      .then((data) => {
+        if (cancelled) return;
+        setEvents(data.events);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to load objective history', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [objectiveId, refreshKey]);
+
+  if (error) return <p>Unable to load history: {error}</p>;
+  if (!events) return <p>Loading history…</p>;
+  if (events.length === 0) return <p>No recorded changes yet.</p>;
+
+  return (
+    <ol className="explore__history">
+      {events.map((event) => {
+        const { summary, changes } = describeAuditEvent(event);
+        return (
+          <li key={event.id}>
+            <strong>{summary}</strong>
+            {changes.map((change) => (
+              <p key={change}>{change}</p>
+            ))}
+            <small>
+              {new Date(event.createdAt).toLocaleString()} · {event.actor}
+              {event.reason ? ` · ${event.reason}` : ''}
+            </small>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
 export default function Knowledge() {
   const [snapshot, setSnapshot] = useState<GraphSnapshot | null>(null);
   const [loading, setLoading] = useState(false);
@@ -113,6 +225,12 @@ export default function Knowledge() {
   const [connectionSaving, setConnectionSaving] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [hasUnsavedLayout, setHasUnsavedLayout] = useState(false);
+  const [mergeForm, setMergeForm] = useState<{ query: string; mergedIds: string[] } | null>(null);
+  const [mergeSaving, setMergeSaving] = useState(false);
+  const [splitForm, setSplitForm] = useState<{ parts: string[]; assignments: Record<string, number[]> } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [splitSaving, setSplitSaving] = useState(false);
+  const [splitSuggesting, setSplitSuggesting] = useState(false);
   const savedLayoutRef = useRef<Record<string, XYPosition>>({});
   const layoutInitialisedRef = useRef(false);
 
@@ -294,11 +412,15 @@ export default function Knowledge() {
 
   const onNodeClick = useCallback((_: unknown, node: FlowNode) => {
     setSelectedId(node.id);
+    setMergeForm(null);
+    setSplitForm(null);
   }, []);
 
   const onPaneClick = useCallback(() => {
     setSelectedId(null);
     setConnectionForm(null);
+    setMergeForm(null);
+    setSplitForm(null);
     setConnectionError(null);
   }, []);
 
@@ -328,7 +450,7 @@ export default function Knowledge() {
     const id = selectedObjective.id;
     try {
       setConnectionError(null);
-      const response = await fetch(`http://localhost:3001/api/objectives/${id}`, {
+      const response = await apiFetch(`http://localhost:3001/api/objectives/${id}`, {
         method: 'DELETE',
       });
 
@@ -337,17 +459,7 @@ export default function Knowledge() {
         throw new Error(errorData.error || `HTTP ${response.status}`);
       }
 
-      const layoutCopy = { ...savedLayoutRef.current };
-      if (layoutCopy[id]) {
-        delete layoutCopy[id];
-        savedLayoutRef.current = layoutCopy;
-        try {
-          localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layoutCopy));
-        } catch (err) {
-          console.warn('Failed to update saved layout after deletion', err);
-        }
-      }
-
+      // The saved position is kept so a restored objective returns to the same spot
       await refreshSnapshot();
       setSelectedId(null);
     } catch (err) {
@@ -356,12 +468,163 @@ export default function Knowledge() {
     }
   }, [selectedObjective, refreshSnapshot]);
 
+  const mergeCandidates = useMemo(() => {
+    if (!mergeForm || !selectedObjective || !snapshot) return [] as GraphObjective[];
+    const query = mergeForm.query.trim().toLowerCase();
+    const survivorWords = words(selectedObjective.text);
+
+    return snapshot.objectives
+      .filter((objective) => objective.id !== selectedObjective.id)
+      .filter((objective) => !query || objective.text.toLowerCase().includes(query))
+      .map((objective) => ({ objective, score: overlapScore(survivorWords, words(objective.text)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MERGE_CANDIDATE_LIMIT)
+      .map(({ objective }) => objective);
+  }, [mergeForm, selectedObjective, snapshot]);
+
+  const handleMerge = useCallback(async () => {
+    if (!mergeForm || !selectedObjective || mergeForm.mergedIds.length === 0) return;
+    setMergeSaving(true);
+    setConnectionError(null);
+
+    try {
+      const response = await apiFetch('http://localhost:3001/api/objectives/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId: selectedObjective.id, mergedIds: mergeForm.mergedIds }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const layoutCopy = { ...savedLayoutRef.current };
+      mergeForm.mergedIds.forEach((id) => delete layoutCopy[id]);
+      savedLayoutRef.current = layoutCopy;
+      try {
+        localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layoutCopy));
+      } catch (err) {
+        console.warn('Failed to update saved layout after merge', err);
+      }
+
+      setMergeForm(null);
+      await refreshSnapshot();
+    } catch (err) {
+      console.error('Merge objectives error', err);
+      setConnectionError(err instanceof Error ? err.message : 'Failed to merge objectives');
+    } finally {
+      setMergeSaving(false);
+    }
+  }, [mergeForm, selectedObjective, refreshSnapshot]);
+
+  const updateSplitPart = useCallback((index: number, text: string) => {
+    setSplitForm((prev) =>
+      prev ? { ...prev, parts: prev.parts.map((part, partIndex) => (partIndex === index ? text : part)) } : prev,
+    );
+  }, []);
+
+  const removeSplitPart = useCallback((index: number) => {
+    setSplitForm((prev) => {
+      if (!prev) return prev;
+      // Shift relationship assignments so they keep pointing at the same parts
+      const assignments = Object.fromEntries(
+        Object.entries(prev.assignments).map(([id, indexes]) => [
+          id,
+          indexes.filter((value) => value !== index).map((value) => (value > index ? value - 1 : value)),
+        ]),
+      );
+      return { parts: prev.parts.filter((_, partIndex) => partIndex !== index), assignments };
+    });
+  }, []);
+
+  const toggleSplitAssignment = useCallback((relationshipId: string, index: number) => {
+    setSplitForm((prev) => {
+      if (!prev) return prev;
+      const current = prev.assignments[relationshipId] ?? prev.parts.map((_, partIndex) => partIndex);
+      const next = current.includes(index) ? current.filter((value) => value !== index) : [...current, index];
+      return { ...prev, assignments: { ...prev.assignments, [relationshipId]: next } };
+    });
+  }, []);
+
+  const handleSuggestSplit = useCallback(async () => {
+    if (!selectedObjective) return;
+    setSplitSuggesting(true);
+    setConnectionError(null);
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/objectives/${selectedObjective.id}/split/suggestions`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const data: { parts: Array<{ text: string }> } = await response.json();
+      if (data.parts.length < 2) {
+        setConnectionError('The model did not find separate parts in this objective.');
+        return;
+      }
+      setSplitForm({ parts: data.parts.map((part) => part.text), assignments: {} });
+    } catch (err) {
+      console.error('Split suggestion error', err);
+      setConnectionError(err instanceof Error ? err.message : 'Failed to suggest a split');
+    } finally {
+      setSplitSuggesting(false);
+    }
+  }, [selectedObjective]);
+
+  const handleSplit = useCallback(async () => {
+    if (!splitForm || !selectedObjective) return;
+    setSplitSaving(true);
+    setConnectionError(null);
+
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/objectives/${selectedObjective.id}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          parts: splitForm.parts.map((text) => ({ text: text.trim() })),
+          relationships: splitForm.assignments,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const data: { objectives: GraphObjective[] } = await response.json();
+      const layoutCopy = { ...savedLayoutRef.current };
+      delete layoutCopy[selectedObjective.id];
+      savedLayoutRef.current = layoutCopy;
+      try {
+        localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layoutCopy));
+      } catch (err) {
+        console.warn('Failed to update saved layout after split', err);
+      }
+
+      setSplitForm(null);
+      await refreshSnapshot();
+      setSelectedId(data.objectives[0]?.id ?? null);
+    } catch (err) {
+      console.error('Split objective error', err);
+      setConnectionError(err instanceof Error ? err.message : 'Failed to split objective');
+    } finally {
+      setSplitSaving(false);
+    }
+  }, [splitForm, selectedObjective, refreshSnapshot]);
+
   const handleConnect = useCallback((connection: Connection) => {
     if (!connection.source || !connection.target) return;
     if (connection.source === connection.target) {
       setConnectionError('Choose two different objectives to create a relationship.');
       return;
     }
+    setMergeForm(null);
+    setSplitForm(null);
     setConnectionForm({
       mode: 'create',
       sourceId: connection.source,
@@ -379,7 +642,7 @@ export default function Knowledge() {
 
     try {
       if (connectionForm.mode === 'create') {
-        const response = await fetch('http://localhost:3001/api/objectives/relationships', {
+        const response = await apiFetch('http://localhost:3001/api/objectives/relationships', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -403,7 +666,7 @@ export default function Knowledge() {
           throw new Error('Relationship id missing');
         }
 
-        const response = await fetch(
+        const response = await apiFetch(
           `http://localhost:3001/api/objectives/relationships/${connectionForm.relationshipId}`,
           {
             method: 'PATCH',
@@ -441,7 +704,7 @@ export default function Knowledge() {
     async (relationshipId: string) => {
       setConnectionError(null);
       try {
-        const response = await fetch(`http://localhost:3001/api/objectives/relationships/${relationshipId}`, {
+        const response = await apiFetch(`http://localhost:3001/api/objectives/relationships/${relationshipId}`, {
           method: 'DELETE',
         });
 
@@ -540,8 +803,44 @@ export default function Knowledge() {
               )}
             </div>
 
+            <div className="explore__relations">
+              <button
+                type="button"
+                className="explore__relation-edit"
+                onClick={() => setShowHistory((prev) => !prev)}
+              >
+                {showHistory ? 'Hide history' : 'Show history'}
+              </button>
+              {showHistory && <ObjectiveHistory objectiveId={selectedObjective.id} refreshKey={snapshot} />}
+            </div>
+
+            <div className="explore__relation-buttons">
+              <button
+                type="button"
+                className="explore__relation-edit"
+                onClick={() => {
+                  setConnectionForm(null);
+                  setSplitForm(null);
+                  setMergeForm({ query: '', mergedIds: [] });
+                }}
+              >
+                Merge duplicates…
+              </button>
+              <button
+                type="button"
+                className="explore__relation-edit"
+                onClick={() => {
+                  setConnectionForm(null);
+                  setMergeForm(null);
+                  setSplitForm({ parts: [selectedObjective.text, ''], assignments: {} });
+                }}
+              >
+                Split…
+              </button>
+            </div>
+
             <button type="button" className="explore__delete-button" onClick={handleDeleteObjective}>
-              Delete objective
+              Move to trash
             </button>
           </div>
         )}
@@ -601,7 +900,151 @@ export default function Knowledge() {
           </div>
         )}
 
-        {connectionError && !connectionForm && (
+        {mergeForm && selectedObjective && (
+          <div className="explore__builder explore__merge" role="dialog" aria-live="polite">
+            <h4>Merge into this objective</h4>
+            <p>
+              <strong>{selectedObjective.text}</strong> survives. Tags and metrics are combined, the most detailed
+              context is kept and links move over.
+            </p>
+            <label htmlFor="merge-search">Find duplicates</label>
+            <input
+              id="merge-search"
+              type="text"
+              placeholder="Filter objectives…"
+              value={mergeForm.query}
+              onChange={(event) => setMergeForm((prev) => (prev ? { ...prev, query: event.target.value } : prev))}
+            />
+            <ul className="explore__merge-candidates">
+              {mergeCandidates.length === 0 && <li>No other objectives match.</li>}
+              {mergeCandidates.map((objective) => (
+                <li key={objective.id}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={mergeForm.mergedIds.includes(objective.id)}
+                      onChange={() =>
+                        setMergeForm((prev) =>
+                          prev
+                            ? {
+                                ...prev,
+                                mergedIds: prev.mergedIds.includes(objective.id)
+                                  ? prev.mergedIds.filter((id) => id !== objective.id)
+                                  : [...prev.mergedIds, objective.id],
+                              }
+                            : prev,
+                        )
+                      }
+                    />
+                    <span>{objective.text}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            {connectionError && <p className="explore__builder-error">{connectionError}</p>}
+
+            <div className="explore__builder-actions">
+              <button
+                type="button"
+                onClick={handleMerge}
+                disabled={mergeSaving || mergeForm.mergedIds.length === 0}
+              >
+                {mergeSaving
+                  ? 'Merging…'
+                  : `Merge ${mergeForm.mergedIds.length || ''} objective${mergeForm.mergedIds.length === 1 ? '' : 's'}`}
+              </button>
+              <button type="button" className="tickets__secondary" onClick={() => setMergeForm(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {splitForm && selectedObjective && (
+          <div className="explore__builder explore__split" role="dialog" aria-live="polite">
+            <h4>Split objective</h4>
+            <p>
+              Each part keeps the source, owner, status and tags of the original, which is replaced by the parts.
+            </p>
+            {splitForm.parts.map((part, index) => (
+              <div key={index} className="explore__split-part">
+                <label htmlFor={`split-part-${index}`}>Part {index + 1}</label>
+                <textarea
+                  id={`split-part-${index}`}
+                  rows={2}
+                  value={part}
+                  onChange={(event) => updateSplitPart(index, event.target.value)}
+                />
+                {splitForm.parts.length > 2 && (
+                  <button type="button" className="explore__relation-remove" onClick={() => removeSplitPart(index)}>
+                    Remove part
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="explore__builder-actions">
+              <button
+                type="button"
+                className="tickets__secondary"
+                onClick={() => setSplitForm((prev) => (prev ? { ...prev, parts: [...prev.parts, ''] } : prev))}
+                disabled={splitForm.parts.length >= 8}
+              >
+                Add part
+              </button>
+              <button type="button" className="tickets__secondary" onClick={handleSuggestSplit} disabled={splitSuggesting}>
+                {splitSuggesting ? 'Suggesting…' : 'Suggest split'}
+              </button>
+            </div>
+
+            {popoverRelations.length > 0 && (
+              <div className="explore__split-links">
+                <label>Links carried by each part</label>
+                <ul>
+                  {popoverRelations.map((relation) => {
+                    const assigned = splitForm.assignments[relation.id] ?? splitForm.parts.map((_, index) => index);
+                    return (
+                      <li key={relation.id}>
+                        <small>
+                          {relation.type.replace('_', ' ')} · {relation.other.text}
+                        </small>
+                        <div className="explore__split-chips">
+                          {splitForm.parts.map((_, index) => (
+                            <button
+                              key={index}
+                              type="button"
+                              className={`explore__split-chip${assigned.includes(index) ? ' explore__split-chip--active' : ''}`}
+                              onClick={() => toggleSplitAssignment(relation.id, index)}
+                            >
+                              {index + 1}
+                            </button>
+                          ))}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {connectionError && <p className="explore__builder-error">{connectionError}</p>}
+
+            <div className="explore__builder-actions">
+              <button
+                type="button"
+                onClick={handleSplit}
+                disabled={splitSaving || splitForm.parts.some((part) => !part.trim())}
+              >
+                {splitSaving ? 'Splitting…' : `Split into ${splitForm.parts.length}`}
+              </button>
+              <button type="button" className="tickets__secondary" onClick={() => setSplitForm(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {connectionError && !connectionForm && !mergeForm && !splitForm && (
           <div className="explore__builder-error explore__builder-error--toast" role="alert">
             {connectionError}
           </div>
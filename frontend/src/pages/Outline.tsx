@@ -0,0 +1,417 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { KeyResult, KeyResultCheckIn, ObjectiveLevel, ObjectiveTreeNode } from '../types/objectives';
+import { apiFetch } from '../utils/api';
+
+const API_BASE = 'http://localhost:3001/api/objectives';
+
+const LEVELS: ObjectiveLevel[] = ['VISION', 'GOAL', 'KEY_RESULT', 'INITIATIVE', 'TASK'];
+
+const LEVEL_LABELS: Record<ObjectiveLevel, string> = {
+  VISION: 'Vision',
+  GOAL: 'Goal',
+  KEY_RESULT: 'Key result',
+  INITIATIVE: 'Initiative',
+  TASK: 'Task',
+};
+
+function flatten(nodes: ObjectiveTreeNode[], depth = 0): Array<{ node: ObjectiveTreeNode; depth: number }> {
+  return nodes.flatMap((node) => [{ node, depth }, ...flatten(node.children, depth + 1)]);
+}
+
+function collectIds(node: ObjectiveTreeNode): string[] {
+  return [node.id, ...node.children.flatMap(collectIds)];
+}
+
+function formatPercent(progress: number): string {
+  return `${Math.round(progress * 100)}%`;
+}
+
+function formatMeasure(value: number, unit: string | null): string {
+  return unit ? `${value} ${unit}` : String(value);
+}
+
+function ProgressBar({ progress }: { progress: number }) {
+  return (
+    <span className="outline__progress" title={formatPercent(progress)}>
+      <span className="outline__progress-fill" style={{ width: formatPercent(progress) }} />
+    </span>
+  );
+}
+
+interface KeyResultsPanelProps {
+  objectiveId: string;
+  onChanged: () => void;
+}
+
+const EMPTY_KEY_RESULT_FORM = { metric: '', unit: '', baseline: '0', target: '', dueDate: '' };
+
+function KeyResultsPanel({ objectiveId, onChanged }: KeyResultsPanelProps) {
+  const [keyResults, setKeyResults] = useState<KeyResult[]>([]);
+  const [form, setForm] = useState(EMPTY_KEY_RESULT_FORM);
+  const [checkInValues, setCheckInValues] = useState<Record<string, string>>({});
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [history, setHistory] = useState<KeyResultCheckIn[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeyResults = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/${objectiveId}/key-results`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data: { keyResults: KeyResult[] } = await response.json();
+      setKeyResults(data.keyResults);
+    } catch (err) {
+      console.error('Failed to load key results', err);
+      setError(err instanceof Error ? err.message : 'Failed to load key results');
+    }
+  }, [objectiveId]);
+
+  useEffect(() => {
+    void loadKeyResults();
+  }, [loadKeyResults]);
+
+  useEffect(() => {
+    if (!historyId) return;
+    let cancelled = false;
+
+    fetch(`${API_BASE}/key-results/${historyId}/check-ins`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json() as Promise<{ checkIns: KeyResultCheckIn[] }>;
+      })
+      .then((data) => {
+        if (!cancelled) setHistory(data.checkIns);
+      })
+      .catch((err) => console.warn('Failed to load check-ins', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [historyId, keyResults]);
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      setError(null);
+      await loadKeyResults();
+      onChanged();
+      return true;
+    } catch (err) {
+      console.error('Key result request failed', err);
+      setError(err instanceof Error ? err.message : 'Key result request failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addKeyResult = async () => {
+    const baseline = Number(form.baseline || 0);
+    const target = Number(form.target);
+    if (!form.metric.trim() || form.target === '' || Number.isNaN(target) || Number.isNaN(baseline)) {
+      setError('A key result needs a metric and numeric baseline and target');
+      return;
+    }
+
+    const saved = await send(`${API_BASE}/${objectiveId}/key-results`, 'POST', {
+      metric: form.metric.trim(),
+      unit: form.unit.trim() || null,
+      baseline,
+      target,
+      dueDate: form.dueDate || null,
+    });
+    if (saved) setForm(EMPTY_KEY_RESULT_FORM);
+  };
+
+  const checkIn = async (keyResult: KeyResult) => {
+    const raw = checkInValues[keyResult.id] ?? '';
+    const value = Number(raw);
+    if (raw === '' || Number.isNaN(value)) {
+      setError('Enter a numeric value to check in');
+      return;
+    }
+
+    const saved = await send(`${API_BASE}/key-results/${keyResult.id}/check-ins`, 'POST', { value });
+    if (saved) setCheckInValues((prev) => ({ ...prev, [keyResult.id]: '' }));
+  };
+
+  return (
+    <div className="outline__key-results">
+      <span className="outline__key-results-title">Key results</span>
+      {keyResults.length === 0 && <p className="outline__empty">No key results yet.</p>}
+      {keyResults.map((keyResult) => (
+        <div key={keyResult.id} className="outline__key-result">
+          <div className="outline__key-result-head">
+            <strong>{keyResult.metric}</strong>
+            <small>
+              {formatMeasure(keyResult.currentValue, keyResult.unit)} of {formatMeasure(keyResult.target, keyResult.unit)}
+              {` (from ${keyResult.baseline})`}
+              {keyResult.dueDate && ` · due ${new Date(keyResult.dueDate).toLocaleDateString()}`}
+              {` · ${formatPercent(keyResult.progress)}`}
+            </small>
+          </div>
+          <ProgressBar progress={keyResult.progress} />
+          <div className="outline__key-result-actions">
+            <input
+              type="number"
+              placeholder="New value"
+              value={checkInValues[keyResult.id] ?? ''}
+              onChange={(event) => setCheckInValues((prev) => ({ ...prev, [keyResult.id]: event.target.value }))}
+            />
+            <button type="button" disabled={busy} onClick={() => void checkIn(keyResult)}>
+              Check in
+            </button>
+            <button
+              type="button"
+              className="outline__edit"
+              onClick={() => setHistoryId(historyId === keyResult.id ? null : keyResult.id)}
+            >
+              {historyId === keyResult.id ? 'Hide history' : 'History'}
+            </button>
+            <button
+              type="button"
+              className="outline__edit"
+              disabled={busy}
+              onClick={() => void send(`${API_BASE}/key-results/${keyResult.id}`, 'DELETE')}
+            >
+              Remove
+            </button>
+          </div>
+          {historyId === keyResult.id && (
+            <ul className="outline__check-ins">
+              {history.length === 0 && <li>No check-ins yet.</li>}
+              {history.map((entry) => (
+                <li key={entry.id}>
+                  <span>{new Date(entry.recordedAt).toLocaleString()}</span>
+                  <strong>{formatMeasure(entry.value, keyResult.unit)}</strong>
+                  {entry.note && <em>{entry.note}</em>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      <div className="outline__key-result-form">
+        <input
+          placeholder="Metric, e.g. Weekly active teams"
+          value={form.metric}
+          onChange={(event) => setForm((prev) => ({ ...prev, metric: event.target.value }))}
+        />
+        <input
+          type="number"
+          placeholder="Baseline"
+          value={form.baseline}
+          onChange={(event) => setForm((prev) => ({ ...prev, baseline: event.target.value }))}
+        />
+        <input
+          type="number"
+          placeholder="Target"
+          value={form.target}
+          onChange={(event) => setForm((prev) => ({ ...prev, target: event.target.value }))}
+        />
+        <input
+          placeholder="Unit"
+          value={form.unit}
+          onChange={(event) => setForm((prev) => ({ ...prev, unit: event.target.value }))}
+        />
+        <input
+          type="date"
+          value={form.dueDate}
+          onChange={(event) => setForm((prev) => ({ ...prev, dueDate: event.target.value }))}
+        />
+        <button type="button" disabled={busy} onClick={() => void addKeyResult()}>
+          Add key result
+        </button>
+      </div>
+
+      {error && <p className="outline__error">{error}</p>}
+    </div>
+  );
+}
+
+export default function Outline() {
+  const [roots, setRoots] = useState<ObjectiveTreeNode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadTree = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/tree`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data: { roots: ObjectiveTreeNode[] } = await response.json();
+      setRoots(data.roots);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load objective tree', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the outline');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTree();
+  }, [loadTree]);
+
+  const flattened = useMemo(() => flatten(roots), [roots]);
+
+  const updateObjective = async (id: string, updates: { level?: ObjectiveLevel | null; parentId?: string | null }) => {
+    setSaving(true);
+    try {
+      const response = await apiFetch(`${API_BASE}/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      setError(null);
+      await loadTree();
+    } catch (err) {
+      console.error('Failed to update objective hierarchy', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the objective');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: ObjectiveTreeNode) => {
+    const isCollapsed = collapsed.has(node.id);
+    const isEditing = editingId === node.id;
+    // An objective cannot move under itself or anything nested beneath it
+    const excluded = isEditing ? new Set(collectIds(node)) : null;
+
+    return (
+      <li key={node.id} className="outline__node">
+        <div className={`outline__row outline__row--${node.status.toLowerCase()}`}>
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              className="outline__toggle"
+              onClick={() => toggleCollapsed(node.id)}
+              aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              {isCollapsed ? '▸' : '▾'}
+            </button>
+          ) : (
+            <span className="outline__toggle" aria-hidden />
+          )}
+          <span className={`outline__level${node.level ? ` outline__level--${node.level.toLowerCase()}` : ''}`}>
+            {node.level ? LEVEL_LABELS[node.level] : 'Unclassified'}
+          </span>
+          <p>{node.text}</p>
+          <small>
+            {node.status.replace(/_/g, ' ').toLowerCase()}
+            {node.owner ? ` · ${node.owner}` : ''}
+            {node.rollup.descendants > 0 &&
+              ` · ${node.rollup.complete}/${node.rollup.descendants} complete${
+                node.rollup.blocked > 0 ? ` · ${node.rollup.blocked} blocked` : ''
+              }`}
+            {node.rollup.progress !== null && ` · ${formatPercent(node.rollup.progress)} progress`}
+          </small>
+          {node.rollup.progress !== null && <ProgressBar progress={node.rollup.progress} />}
+          <button
+            type="button"
+            className="outline__edit"
+            onClick={() => setEditingId(isEditing ? null : node.id)}
+          >
+            {isEditing ? 'Done' : 'Edit'}
+          </button>
+        </div>
+
+        {isEditing && excluded && (
+          <div className="outline__editor">
+            <label>
+              Level
+              <select
+                value={node.level ?? ''}
+                disabled={saving}
+                onChange={(event) =>
+                  void updateObjective(node.id, { level: (event.target.value || null) as ObjectiveLevel | null })
+                }
+              >
+                <option value="">Unclassified</option>
+                {LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {LEVEL_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Rolls up to
+              <select
+                value={node.parentId ?? ''}
+                disabled={saving}
+                onChange={(event) => void updateObjective(node.id, { parentId: event.target.value || null })}
+              >
+                <option value="">Top level</option>
+                {flattened
+                  .filter(({ node: candidate }) => !excluded.has(candidate.id))
+                  .map(({ node: candidate, depth }) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {`${'— '.repeat(depth)}${candidate.text.length > 80 ? `${candidate.text.slice(0, 80)}…` : candidate.text}`}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <KeyResultsPanel objectiveId={node.id} onChanged={() => void loadTree()} />
+          </div>
+        )}
+
+        {node.children.length > 0 && !isCollapsed && <ul>{node.children.map(renderNode)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <section className="outline">
+      <header className="outline__header">
+        <span className="outline__eyebrow">Outline</span>
+        <h2>From vision down to the work</h2>
+        <p>
+          Objectives nested by level: goals roll up key results, key results roll up initiatives and tasks. Progress
+          comes from measured key results and includes everything beneath a node.
+        </p>
+      </header>
+
+      {loading && roots.length === 0 && <p className="outline__empty">Loading outline…</p>}
+      {!loading && !error && roots.length === 0 && (
+        <p className="outline__empty">No objectives yet — capture some knowledge to build the outline.</p>
+      )}
+      {roots.length > 0 && <ul className="outline__tree">{roots.map(renderNode)}</ul>}
+
+      {error && (
+        <div className="alert" role="alert">
+          <span className="alert__badge">Error</span>
+          <p>{error}</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -2,9 +2,13 @@ import { useEffect, useMemo, useState } from 'react';
 import type {
   ObjectiveRelatedItem,
   ObjectiveRelationTarget,
+  ObjectiveWithRelated,
+  SuggestedRelationship,
   Ticket,
   TicketStatus,
 } from '../types/objectives';
+import { ticketStatusFromReviewState } from '../utils/tickets';
+import { apiFetch } from '../utils/api';
 
 interface RefineProps {
   tickets: Ticket[];
@@ -28,6 +32,10 @@ interface RelationshipCreateResponse {
   relationship: RelationshipApiResponse;
 }
 
+interface ObjectiveUpdateResponse {
+  objective: ObjectiveWithRelated;
+}
+
 interface RelationshipDeleteResponse {
   id: string;
   fromId: string;
@@ -74,6 +82,8 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
   const [relationshipError, setRelationshipError] = useState<string | null>(null);
   const [relationshipSaving, setRelationshipSaving] = useState(false);
   const [relationshipSearchQuery, setRelationshipSearchQuery] = useState('');
+  const [reviewSaving, setReviewSaving] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
 
   useEffect(() => {
     if (tickets.length === 0) {
@@ -109,6 +119,7 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
     setRelationshipForm(null);
     setRelationshipError(null);
     setRelationshipSearchQuery('');
+    setReviewError(null);
   }, [currentIndex]);
 
   useEffect(() => {
@@ -180,19 +191,42 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
     }
   };
 
-  const updateStatus = (status: TicketStatus) => {
+  const updateStatus = async (status: Exclude<TicketStatus, 'pending'>) => {
     if (!currentTicket) return;
 
-    onUpdate(currentIndex, (ticket) => ({
-      ...ticket,
-      status,
-    }));
+    const ticketIndex = currentIndex;
+    const action = status === 'accepted' ? 'accept' : 'discard';
+    setReviewSaving(true);
+    setReviewError(null);
 
-    setIsEditing(false);
-    setDraftText('');
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/objectives/${currentTicket.id}/${action}`, {
+        method: 'POST',
+      });
 
-    if (currentIndex < tickets.length - 1) {
-      goToNext();
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const result: ObjectiveUpdateResponse = await response.json();
+      onUpdate(ticketIndex, (ticket) => ({
+        ...ticket,
+        reviewState: result.objective.reviewState,
+        status: ticketStatusFromReviewState(result.objective.reviewState),
+      }));
+
+      setIsEditing(false);
+      setDraftText('');
+
+      if (ticketIndex < tickets.length - 1) {
+        goToTicket(ticketIndex + 1);
+      }
+    } catch (error) {
+      console.error('Review decision error', error);
+      setReviewError(error instanceof Error ? error.message : 'Failed to save review decision');
+    } finally {
+      setReviewSaving(false);
     }
   };
 
@@ -207,18 +241,43 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
     setDraftText('');
   };
 
-  const handleEditSave = () => {
+  const handleEditSave = async () => {
     if (!currentTicket) return;
     if (!draftText.trim()) return;
 
-    onUpdate(currentIndex, (ticket) => ({
-      ...ticket,
-      text: draftText.trim(),
-      status: 'pending',
-    }));
+    const ticketIndex = currentIndex;
+    setReviewSaving(true);
+    setReviewError(null);
 
-    setIsEditing(false);
-    setDraftText('');
+    try {
+      const response = await apiFetch(`http://localhost:3001/api/objectives/${currentTicket.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: draftText.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const result: ObjectiveUpdateResponse = await response.json();
+      onUpdate(ticketIndex, (ticket) => ({
+        ...ticket,
+        text: result.objective.text,
+        updatedAt: result.objective.updatedAt,
+        reviewState: result.objective.reviewState,
+        status: ticketStatusFromReviewState(result.objective.reviewState),
+      }));
+
+      setIsEditing(false);
+      setDraftText('');
+    } catch (error) {
+      console.error('Objective update error', error);
+      setReviewError(error instanceof Error ? error.message : 'Failed to save changes');
+    } finally {
+      setReviewSaving(false);
+    }
   };
 
   const openAddRelationship = () => {
@@ -272,7 +331,7 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
     try {
       const trimmedRationale = relationshipForm.rationale.trim();
       if (relationshipForm.mode === 'add') {
-        const response = await fetch('http://localhost:3001/api/objectives/relationships', {
+        const response = await apiFetch('http://localhost:3001/api/objectives/relationships', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -299,7 +358,7 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
         if (!relationshipForm.relationshipId) {
           throw new Error('Relationship id is missing');
         }
-        const response = await fetch(`http://localhost:3001/api/objectives/relationships/${relationshipForm.relationshipId}`, {
+        const response = await apiFetch(`http://localhost:3001/api/objectives/relationships/${relationshipForm.relationshipId}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -339,7 +398,7 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
 
     try {
       setRelationshipError(null);
-      const response = await fetch(`http://localhost:3001/api/objectives/relationships/${relationshipId}`, {
+      const response = await apiFetch(`http://localhost:3001/api/objectives/relationships/${relationshipId}`, {
         method: 'DELETE',
       });
 
@@ -361,6 +420,49 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
     }
   };
 
+  const handleSuggestionAccept = async (suggestion: SuggestedRelationship) => {
+    if (!currentTicket) return;
+
+    const ticketIndex = currentIndex;
+    try {
+      setRelationshipError(null);
+      const matched = suggestion.matchedTerms.length > 0 ? ` (shared terms: ${suggestion.matchedTerms.join(', ')})` : '';
+      const response = await apiFetch('http://localhost:3001/api/objectives/relationships', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromId: suggestion.fromId,
+          toId: suggestion.toId,
+          type: suggestion.type,
+          rationale: `Suggested by relatedness engine${matched}`,
+          weight: Number(suggestion.score.toFixed(3)),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const result: RelationshipCreateResponse = await response.json();
+      onUpdate(ticketIndex, (ticket) => ({
+        ...ticket,
+        related: [...ticket.related, mapRelationshipFromApi(result.relationship)],
+        suggestions: ticket.suggestions.filter((item) => item.toId !== suggestion.toId),
+      }));
+    } catch (error) {
+      console.error('Suggestion link error', error);
+      setRelationshipError(error instanceof Error ? error.message : 'Failed to link suggested objective');
+    }
+  };
+
+  const handleSuggestionDismiss = (suggestion: SuggestedRelationship) => {
+    onUpdate(currentIndex, (ticket) => ({
+      ...ticket,
+      suggestions: ticket.suggestions.filter((item) => item.toId !== suggestion.toId),
+    }));
+  };
+
   if (!hasTickets) {
     return (
       <section className="refine">
@@ -384,7 +486,7 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
     return null;
   }
 
-  const isTicketActionDisabled = currentTicket.status !== 'pending';
+  const isTicketActionDisabled = currentTicket.status !== 'pending' || reviewSaving;
 
   return (
     <section className="refine">
@@ -495,6 +597,37 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
             );
           })()}
 
+          {currentTicket.suggestions.length > 0 && (
+            <>
+              <span className="tickets__related-label">Suggested links</span>
+              <ul>
+                {currentTicket.suggestions.map((suggestion) => (
+                  <li key={suggestion.toId}>
+                    <div>
+                      <strong>
+                        {relationshipTypeLabel(suggestion.type)} · {Math.round(suggestion.score * 100)}% match
+                      </strong>
+                      <p>{suggestion.toText}</p>
+                      {suggestion.matchedTerms.length > 0 && <small>Shared terms: {suggestion.matchedTerms.join(', ')}</small>}
+                    </div>
+                    <div className="tickets__relation-actions">
+                      <button type="button" className="tickets__secondary" onClick={() => handleSuggestionAccept(suggestion)}>
+                        Link
+                      </button>
+                      <button
+                        type="button"
+                        className="tickets__secondary tickets__secondary--danger"
+                        onClick={() => handleSuggestionDismiss(suggestion)}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
           {relationshipForm && (
             <div className="tickets__relation-form">
               <h4>{relationshipForm.mode === 'add' ? 'Add relationship' : 'Edit relationship'}</h4>
@@ -593,13 +726,15 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
           )}
         </div>
 
+        {reviewError && <p className="tickets__relation-error">{reviewError}</p>}
+
         <footer className="tickets__actions">
           {isEditing ? (
             <>
-              <button type="button" onClick={handleEditSave} disabled={!draftText.trim()}>
-                Save changes
+              <button type="button" onClick={handleEditSave} disabled={!draftText.trim() || reviewSaving}>
+                {reviewSaving ? 'Saving…' : 'Save changes'}
               </button>
-              <button type="button" onClick={handleEditCancel} className="tickets__secondary">
+              <button type="button" onClick={handleEditCancel} className="tickets__secondary" disabled={reviewSaving}>
                 Cancel
               </button>
             </>
@@ -608,7 +743,7 @@ export default function Refine({ tickets, onUpdate }: RefineProps) {
               <button type="button" onClick={() => updateStatus('accepted')} disabled={isTicketActionDisabled}>
                 Accept
               </button>
-              <button type="button" onClick={handleEditStart} className="tickets__secondary">
+              <button type="button" onClick={handleEditStart} className="tickets__secondary" disabled={reviewSaving}>
                 Edit
               </button>
               <button
@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { GraphDiff, GraphSnapshotSummary, SnapshotRelationshipChange } from '../types/objectives';
+import { apiFetch } from '../utils/api';
+
+const API_BASE = 'http://localhost:3001/api/snapshots';
+const CURRENT_STATE = 'now';
+
+const FIELD_LABELS: Record<string, string> = {
+  text: 'Text',
+  status: 'Status',
+  priority: 'Priority',
+  level: 'Level',
+  parentId: 'Parent',
+  progress: 'Progress',
+};
+
+function formatChangeValue(field: string, value: unknown, names: Map<string, string>): string {
+  if (value === null || value === undefined) return '—';
+  if (field === 'progress' && typeof value === 'number') return `${Math.round(value * 100)}%`;
+  if (field === 'parentId' && typeof value === 'string') return names.get(value) ?? 'another objective';
+  return String(value).replace(/_/g, ' ').toLowerCase();
+}
+
+function RelationshipList({ items }: { items: SnapshotRelationshipChange[] }) {
+  return (
+    <ul>
+      {items.map((item) => (
+        <li key={item.id}>
+          <p>
+            {item.fromText ?? item.fromId} <strong>{item.type.replace('_', ' ').toLowerCase()}</strong>{' '}
+            {item.toText ?? item.toId}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function Snapshots() {
+  const [snapshots, setSnapshots] = useState<GraphSnapshotSummary[]>([]);
+  const [name, setName] = useState('');
+  const [note, setNote] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT_STATE);
+  const [diff, setDiff] = useState<{ from: string; to: string; diff: GraphDiff } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      const response = await fetch(API_BASE);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data: { snapshots: GraphSnapshotSummary[] } = await response.json();
+      setSnapshots(data.snapshots);
+      setFromId((prev) => prev || data.snapshots[0]?.id || '');
+    } catch (err) {
+      console.error('Failed to load snapshots', err);
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  const saveSnapshot = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const response = await apiFetch(API_BASE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), note: note.trim() || null }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      setName('');
+      setNote('');
+      setError(null);
+      await loadSnapshots();
+    } catch (err) {
+      console.error('Failed to save snapshot', err);
+      setError(err instanceof Error ? err.message : 'Failed to save snapshot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSnapshot = async (id: string) => {
+    try {
+      const response = await apiFetch(`${API_BASE}/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      if (fromId === id) setFromId('');
+      if (toId === id) setToId(CURRENT_STATE);
+      setDiff(null);
+      await loadSnapshots();
+    } catch (err) {
+      console.error('Failed to delete snapshot', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot');
+    }
+  };
+
+  const compare = async () => {
+    if (!fromId) return;
+    setComparing(true);
+    try {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      const response = await fetch(`${API_BASE}/diff?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      const data: { from: { name: string }; to: { name: string }; diff: GraphDiff } = await response.json();
+      setDiff({ from: data.from.name, to: data.to.name, diff: data.diff });
+      setError(null);
+    } catch (err) {
+      console.error('Failed to compare snapshots', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const objectiveNames = new Map(
+    diff
+      ? [...diff.diff.objectives.added, ...diff.diff.objectives.removed, ...diff.diff.objectives.changed].map(
+          (objective) => [objective.id, objective.text] as const,
+        )
+      : [],
+  );
+  const unchanged =
+    diff !== null &&
+    Object.values(diff.diff.objectives).every((items) => items.length === 0) &&
+    Object.values(diff.diff.relationships).every((items) => items.length === 0);
+
+  return (
+    <section className="snapshots">
+      <header className="snapshots__header">
+        <span className="snapshots__eyebrow">Snapshots</span>
+        <h2>See how the strategy moved</h2>
+        <p>
+          Save the graph at a moment that matters, such as a planning session, then compare it with a later snapshot or
+          with today to see which objectives appeared, disappeared or changed status.
+        </p>
+      </header>
+
+      <div className="snapshots__layout">
+        <div className="snapshots__panel">
+          <h3>Save a snapshot</h3>
+          <input placeholder="Name, e.g. Q3 planning" value={name} onChange={(event) => setName(event.target.value)} />
+          <textarea
+            placeholder="Optional note"
+            rows={2}
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+          />
+          <button type="button" disabled={saving || !name.trim()} onClick={() => void saveSnapshot()}>
+            {saving ? 'Saving…' : 'Save snapshot'}
+          </button>
+
+          <h3>Saved</h3>
+          {snapshots.length === 0 && <p className="snapshots__empty">No snapshots yet.</p>}
+          <ul className="snapshots__list">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id}>
+                <div>
+                  <strong>{snapshot.name}</strong>
+                  <small>
+                    {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.objectiveCount} objectives ·{' '}
+                    {snapshot.relationshipCount} links
+                  </small>
+                  {snapshot.note && <small>{snapshot.note}</small>}
+                </div>
+                <button type="button" className="snapshots__delete" onClick={() => void deleteSnapshot(snapshot.id)}>
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="snapshots__panel">
+          <h3>Compare</h3>
+          <div className="snapshots__compare">
+            <label>
+              From
+              <select value={fromId} onChange={(event) => setFromId(event.target.value)}>
+                <option value="" disabled>
+                  Pick a snapshot
+                </option>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    {snapshot.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              To
+              <select value={toId} onChange={(event) => setToId(event.target.value)}>
+                <option value={CURRENT_STATE}>Now</option>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    {snapshot.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="button" disabled={comparing || !fromId} onClick={() => void compare()}>
+              {comparing ? 'Comparing…' : 'Compare'}
+            </button>
+          </div>
+
+          {diff && (
+            <div className="snapshots__diff">
+              <p className="snapshots__empty">
+                {diff.from} → {diff.to}
+                {unchanged && ': no changes.'}
+              </p>
+
+              {diff.diff.objectives.added.length > 0 && (
+                <section className="snapshots__diff-group snapshots__diff-group--added">
+                  <h4>Objectives added ({diff.diff.objectives.added.length})</h4>
+                  <ul>
+                    {diff.diff.objectives.added.map((objective) => (
+                      <li key={objective.id}>
+                        <p>{objective.text}</p>
+                        <small>{objective.status.toLowerCase()}</small>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {diff.diff.objectives.removed.length > 0 && (
+                <section className="snapshots__diff-group snapshots__diff-group--removed">
+                  <h4>Objectives removed ({diff.diff.objectives.removed.length})</h4>
+                  <ul>
+                    {diff.diff.objectives.removed.map((objective) => (
+                      <li key={objective.id}>
+                        <p>{objective.text}</p>
+                        <small>was {objective.status.toLowerCase()}</small>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {diff.diff.objectives.changed.length > 0 && (
+                <section className="snapshots__diff-group">
+                  <h4>Objectives changed ({diff.diff.objectives.changed.length})</h4>
+                  <ul>
+                    {diff.diff.objectives.changed.map((objective) => (
+                      <li key={objective.id}>
+                        <p>{objective.text}</p>
+                        {Object.entries(objective.changes).map(([field, change]) => (
+                          <small key={field}>
+                            {FIELD_LABELS[field] ?? field}: {formatChangeValue(field, change.from, objectiveNames)} →{' '}
+                            {formatChangeValue(field, change.to, objectiveNames)}
+                          </small>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {diff.diff.relationships.added.length > 0 && (
+                <section className="snapshots__diff-group snapshots__diff-group--added">
+                  <h4>Links added ({diff.diff.relationships.added.length})</h4>
+                  <RelationshipList items={diff.diff.relationships.added} />
+                </section>
+              )}
+
+              {diff.diff.relationships.removed.length > 0 && (
+                <section className="snapshots__diff-group snapshots__diff-group--removed">
+                  <h4>Links removed ({diff.diff.relationships.removed.length})</h4>
+                  <RelationshipList items={diff.diff.relationships.removed} />
+                </section>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="alert" role="alert">
+          <span className="alert__badge">Error</span>
+          <p>{error}</p>
+        </div>
+      )}
+    </section>
+  );
+}
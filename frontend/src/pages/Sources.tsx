@@ -0,0 +1,527 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  ExtractionJobStatus,
+  KnowledgeEntryDetail,
+  KnowledgeEntryObjective,
+  KnowledgeEntrySummary,
+  ReextractionProposal,
+} from '../types/objectives';
+import { apiFetch } from '../utils/api';
+
+const API_BASE = 'http://localhost:3001/api/entries';
+const JOBS_API = 'http://localhost:3001/api/extraction-jobs';
+const JOB_POLL_INTERVAL_MS = 1500;
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return String(value);
+}
+
+interface SourceSegment {
+  start: number;
+  text: string;
+  objectiveIds: string[];
+}
+
+// Cuts the raw text at every span boundary so overlapping excerpts each get their own highlighted run
+function buildSourceSegments(rawContent: string, objectives: KnowledgeEntryObjective[]): SourceSegment[] {
+  const spans = objectives
+    .filter((objective) => objective.sourceStart !== null && objective.sourceEnd !== null)
+    .map((objective) => ({
+      id: objective.id,
+      start: Math.max(0, objective.sourceStart as number),
+      end: Math.min(rawContent.length, objective.sourceEnd as number),
+    }))
+    .filter((span) => span.end > span.start);
+
+  const boundaries = Array.from(new Set([0, rawContent.length, ...spans.flatMap((span) => [span.start, span.end])])).sort(
+    (a, b) => a - b,
+  );
+
+  const segments: SourceSegment[] = [];
+  for (let index = 0; index < boundaries.length - 1; index += 1) {
+    const start = boundaries[index];
+    const end = boundaries[index + 1];
+    segments.push({
+      start,
+      text: rawContent.slice(start, end),
+      objectiveIds: spans.filter((span) => span.start <= start && span.end >= end).map((span) => span.id),
+    });
+  }
+  return segments;
+}
+
+function toggle(set: Set<string>, value: string) {
+  const next = new Set(set);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+}
+
+interface ReextractPanelProps {
+  entry: KnowledgeEntryDetail;
+  onApplied: () => void;
+}
+
+function ReextractPanel({ entry, onApplied }: ReextractPanelProps) {
+  const [model, setModel] = useState('');
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<ExtractionJobStatus | null>(null);
+  const [proposal, setProposal] = useState<ReextractionProposal | null>(null);
+  const [addKeys, setAddKeys] = useState<Set<string>>(new Set());
+  const [updateIds, setUpdateIds] = useState<Set<string>>(new Set());
+  const [discardIds, setDiscardIds] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`${JOBS_API}/${jobId}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const { job } = await response.json();
+        if (cancelled) return;
+
+        setJobStatus(job.status);
+        if (job.status === 'DONE') {
+          const result = job.result as ReextractionProposal;
+          setProposal(result);
+          setAddKeys(new Set(result.added.map((item) => item.key)));
+          setUpdateIds(new Set(result.updated.map((item) => item.objectiveId)));
+          setDiscardIds(new Set());
+          return;
+        }
+        if (job.status === 'FAILED') {
+          setError(job.error || 'Re-extraction failed');
+          return;
+        }
+      } catch (err) {
+        console.warn('Failed to poll re-extraction job', err);
+      }
+      if (!cancelled) timer = window.setTimeout(() => void poll(), JOB_POLL_INTERVAL_MS);
+    };
+
+    void poll();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const running = jobId !== null && proposal === null && jobStatus !== 'FAILED';
+
+  const startReextraction = async () => {
+    setError(null);
+    setMessage(null);
+    setProposal(null);
+    setJobStatus('QUEUED');
+
+    try {
+      const response = await apiFetch(`${API_BASE}/${entry.id}/reextract`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(model.trim() ? { model: model.trim() } : {}),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      const { job } = await response.json();
+      setJobId(job.id);
+    } catch (err) {
+      console.error('Failed to start re-extraction', err);
+      setJobStatus(null);
+      setError(err instanceof Error ? err.message : 'Failed to start re-extraction');
+    }
+  };
+
+  const applyProposal = async () => {
+    if (!jobId) return;
+    setApplying(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE}/${entry.id}/reextract/${jobId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          add: Array.from(addKeys),
+          update: Array.from(updateIds),
+          discard: Array.from(discardIds),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+
+      setMessage(
+        `Applied: ${data.created.length} added, ${data.updated} updated, ${data.discarded} discarded, ${data.relationshipsCreated} relationships.`,
+      );
+      setProposal(null);
+      setJobId(null);
+      setJobStatus(null);
+      onApplied();
+    } catch (err) {
+      console.error('Failed to apply re-extraction', err);
+      setError(err instanceof Error ? err.message : 'Failed to apply re-extraction');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="sources__reextract">
+      <div className="sources__reextract-controls">
+        <h4>Re-extract</h4>
+        <small>Last extracted with {entry.extractionModel ?? 'an unknown model'}</small>
+        <div className="sources__reextract-form">
+          <label className="sr-only" htmlFor="reextract-model">
+            Model
+          </label>
+          <input
+            id="reextract-model"
+            type="text"
+            value={model}
+            placeholder="Model (defaults to the configured one)"
+            onChange={(event) => setModel(event.target.value)}
+            disabled={running || applying}
+          />
+          <button type="button" onClick={startReextraction} disabled={running || applying}>
+            {running ? `${(jobStatus ?? 'QUEUED').toLowerCase()}…` : 'Re-extract'}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="sources__reextract-message">{message}</p>}
+      {error && <p className="sources__reextract-error">{error}</p>}
+
+      {proposal && (
+        <div className="sources__diff">
+          <small>
+            {proposal.model} vs {proposal.previousModel ?? 'previous extraction'} · {proposal.unchanged.length} unchanged ·{' '}
+            {proposal.duplicates.length} already elsewhere in the graph · {proposal.relationships.length} new relationships
+          </small>
+
+          {proposal.added.length > 0 && (
+            <section>
+              <h5>New objectives</h5>
+              {proposal.added.map((item) => (
+                <label key={item.key} className="sources__diff-item sources__diff-item--added">
+                  <input
+                    type="checkbox"
+                    checked={addKeys.has(item.key)}
+                    onChange={() => setAddKeys((prev) => toggle(prev, item.key))}
+                  />
+                  <span>{item.draft.text}</span>
+                </label>
+              ))}
+            </section>
+          )}
+
+          {proposal.updated.length > 0 && (
+            <section>
+              <h5>Changed objectives</h5>
+              {proposal.updated.map((item) => (
+                <label key={item.objectiveId} className="sources__diff-item sources__diff-item--updated">
+                  <input
+                    type="checkbox"
+                    checked={updateIds.has(item.objectiveId)}
+                    onChange={() => setUpdateIds((prev) => toggle(prev, item.objectiveId))}
+                  />
+                  <span>
+                    {item.text}
+                    <ul>
+                      {Object.entries(item.changes).map(([field, change]) => (
+                        <li key={field}>
+                          <strong>{field}</strong>: <del>{formatValue(change.from)}</del> → <ins>{formatValue(change.to)}</ins>
+                        </li>
+                      ))}
+                    </ul>
+                  </span>
+                </label>
+              ))}
+            </section>
+          )}
+
+          {proposal.removed.length > 0 && (
+            <section>
+              <h5>No longer extracted</h5>
+              {proposal.removed.map((item) => (
+                <label key={item.objectiveId} className="sources__diff-item sources__diff-item--removed">
+                  <input
+                    type="checkbox"
+                    checked={discardIds.has(item.objectiveId)}
+                    onChange={() => setDiscardIds((prev) => toggle(prev, item.objectiveId))}
+                  />
+                  <span>
+                    Discard “{item.text}”{item.reviewState === 'DISCARDED' ? ' (already discarded)' : ''}
+                  </span>
+                </label>
+              ))}
+            </section>
+          )}
+
+          <div className="sources__reextract-form">
+            <button type="button" onClick={applyProposal} disabled={applying}>
+              {applying ? 'Applying…' : 'Apply selected changes'}
+            </button>
+            <button
+              type="button"
+              className="tickets__secondary"
+              onClick={() => {
+                setProposal(null);
+                setJobId(null);
+                setJobStatus(null);
+              }}
+              disabled={applying}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Sources() {
+  const [entries, setEntries] = useState<KnowledgeEntrySummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<KnowledgeEntryDetail | null>(null);
+  const [loadingList, setLoadingList] = useState(false);
+  const [loadingEntry, setLoadingEntry] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [activeObjectiveId, setActiveObjectiveId] = useState<string | null>(null);
+  const rawRef = useRef<HTMLPreElement | null>(null);
+  const objectivesRef = useRef<HTMLUListElement | null>(null);
+
+  const segments = useMemo(
+    () => (selected ? buildSourceSegments(selected.rawContent, selected.objectives) : []),
+    [selected],
+  );
+  const locatedCount = selected
+    ? selected.objectives.filter((objective) => objective.sourceStart !== null).length
+    : 0;
+
+  const showInSource = (objectiveId: string) => {
+    setActiveObjectiveId(objectiveId);
+    rawRef.current
+      ?.querySelector(`[data-objectives~="${objectiveId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const showObjective = (segment: SourceSegment) => {
+    // Repeated clicks on overlapping highlights cycle through the objectives they cover
+    const current = activeObjectiveId ? segment.objectiveIds.indexOf(activeObjectiveId) : -1;
+    const objectiveId = segment.objectiveIds[(current + 1) % segment.objectiveIds.length];
+    setActiveObjectiveId(objectiveId);
+    objectivesRef.current
+      ?.querySelector(`[data-objective="${objectiveId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      setLoadingList(true);
+      try {
+        const params = new URLSearchParams();
+        if (query.trim()) params.set('query', query.trim());
+        const response = await fetch(`${API_BASE}?${params.toString()}`, { signal: controller.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: { entries: KnowledgeEntrySummary[]; total: number } = await response.json();
+        setEntries(data.entries);
+        setTotal(data.total);
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error('Failed to load knowledge entries', err);
+        setError(err instanceof Error ? err.message : 'Failed to load sources');
+      } finally {
+        if (!controller.signal.aborted) setLoadingList(false);
+      }
+    }, 250);
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const loadEntry = async () => {
+      setLoadingEntry(true);
+      try {
+        const response = await fetch(`${API_BASE}/${selectedId}`, { signal: controller.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: { entry: KnowledgeEntryDetail } = await response.json();
+        setSelected(data.entry);
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error('Failed to load knowledge entry', err);
+        setError(err instanceof Error ? err.message : 'Failed to load source');
+      } finally {
+        if (!controller.signal.aborted) setLoadingEntry(false);
+      }
+    };
+
+    void loadEntry();
+    return () => controller.abort();
+  }, [selectedId, reloadToken]);
+
+  return (
+    <section className="sources">
+      <header className="sources__header">
+        <span className="sources__eyebrow">Sources</span>
+        <h2>Every intake, and what it produced</h2>
+        <p>Audit where objectives came from: browse the raw text of each capture alongside the objectives it created.</p>
+      </header>
+
+      <div className="sources__layout">
+        <aside className="sources__list" aria-label="Knowledge entries">
+          <label className="sr-only" htmlFor="sources-search">
+            Search sources
+          </label>
+          <input
+            id="sources-search"
+            type="search"
+            value={query}
+            placeholder="Search titles and raw text…"
+            onChange={(event) => setQuery(event.target.value)}
+          />
+          <small>{loadingList ? 'Loading…' : `${total} source${total === 1 ? '' : 's'}`}</small>
+          <ul>
+            {entries.map((entry) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  className={`sources__item${entry.id === selectedId ? ' sources__item--active' : ''}`}
+                  onClick={() => {
+                    setSelectedId(entry.id);
+                    setActiveObjectiveId(null);
+                  }}
+                >
+                  <strong>{entry.title || 'Untitled intake'}</strong>
+                  <span>{entry.preview}</span>
+                  <small>
+                    {formatDate(entry.createdAt)} · {entry.objectiveCount} objective
+                    {entry.objectiveCount === 1 ? '' : 's'}
+                  </small>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <div className="sources__detail">
+          {!selectedId && <p className="sources__empty">Select a source to see its raw text and objectives.</p>}
+          {selectedId && loadingEntry && !selected && <p className="sources__empty">Loading source…</p>}
+          {selected && (
+            <>
+              <div className="sources__meta">
+                <h3>{selected.title || 'Untitled intake'}</h3>
+                <small>
+                  Captured {formatDate(selected.createdAt)} · {selected.characterCount.toLocaleString()} characters
+                </small>
+              </div>
+
+              <div className="sources__objectives">
+                <h4>
+                  {selected.objectiveCount} objective{selected.objectiveCount === 1 ? '' : 's'} extracted
+                </h4>
+                {selected.objectives.length === 0 ? (
+                  <p className="sources__empty">This intake did not produce any objectives.</p>
+                ) : (
+                  <ul ref={objectivesRef}>
+                    {selected.objectives.map((objective) => (
+                      <li
+                        key={objective.id}
+                        data-objective={objective.id}
+                        className={`sources__objective sources__objective--${objective.reviewState.toLowerCase()}${
+                          objective.id === activeObjectiveId ? ' sources__objective--active' : ''
+                        }`}
+                      >
+                        <p>{objective.text}</p>
+                        <small>
+                          {objective.status.replace(/_/g, ' ').toLowerCase()} · {objective.priority.toLowerCase()} priority ·{' '}
+                          {objective.reviewState.toLowerCase()}
+                          {objective.owner ? ` · owner: ${objective.owner}` : ''}
+                        </small>
+                        {objective.sourceExcerpt && <blockquote>{objective.sourceExcerpt}</blockquote>}
+                        {objective.sourceStart !== null && (
+                          <button type="button" className="sources__locate" onClick={() => showInSource(objective.id)}>
+                            Show in source
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <ReextractPanel key={selected.id} entry={selected} onApplied={() => setReloadToken((token) => token + 1)} />
+
+              <div className="sources__raw">
+                <h4>Raw text</h4>
+                {selected.objectives.length > 0 && (
+                  <small>
+                    {locatedCount} of {selected.objectives.length} excerpts located · click a highlight to see its
+                    objective
+                  </small>
+                )}
+                <pre ref={rawRef}>
+                  {segments.map((segment) => {
+                    if (segment.objectiveIds.length === 0) return segment.text;
+                    const titles = selected.objectives
+                      .filter((objective) => segment.objectiveIds.includes(objective.id))
+                      .map((objective) => objective.text);
+                    const active = activeObjectiveId !== null && segment.objectiveIds.includes(activeObjectiveId);
+                    return (
+                      <mark
+                        key={segment.start}
+                        data-objectives={segment.objectiveIds.join(' ')}
+                        className={`sources__highlight${segment.objectiveIds.length > 1 ? ' sources__highlight--overlap' : ''}${
+                          active ? ' sources__highlight--active' : ''
+                        }`}
+                        title={titles.join('\n')}
+                        onClick={() => showObjective(segment)}
+                      >
+                        {segment.text}
+                      </mark>
+                    );
+                  })}
+                </pre>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="alert" role="alert">
+          <span className="alert__badge">Error</span>
+          <p>{error}</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { TrashedObjective } from '../types/objectives';
+import { apiFetch } from '../utils/api';
+
+const API_BASE = 'http://localhost:3001/api/objectives';
+
+export default function Trash() {
+  const [objectives, setObjectives] = useState<TrashedObjective[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/trash`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data: { objectives: TrashedObjective[] } = await response.json();
+      setObjectives(data.objectives);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load trash', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTrash();
+  }, [loadTrash]);
+
+  const act = async (objective: TrashedObjective, action: 'restore' | 'purge') => {
+    setBusyId(objective.id);
+    setMessage(null);
+    try {
+      const response = await apiFetch(
+        action === 'restore' ? `${API_BASE}/${objective.id}/restore` : `${API_BASE}/trash/${objective.id}`,
+        { method: action === 'restore' ? 'POST' : 'DELETE' },
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      setObjectives((prev) => prev.filter((item) => item.id !== objective.id));
+      setMessage(
+        action === 'restore'
+          ? `Restored “${objective.text}” with ${objective.relationshipCount} link${objective.relationshipCount === 1 ? '' : 's'}.`
+          : `Permanently deleted “${objective.text}”.`,
+      );
+      setError(null);
+    } catch (err) {
+      console.error(`Failed to ${action} objective`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} objective`);
+    } finally {
+      setBusyId(null);
+      setConfirmingId(null);
+    }
+  };
+
+  return (
+    <section className="trash">
+      <header className="trash__header">
+        <span className="trash__eyebrow">Trash</span>
+        <h2>Deleted objectives</h2>
+        <p>
+          Deleting an objective moves it here with its links, key results and place in the outline intact. Restore it
+          to bring everything back, or delete it for good. Objectives folded away by a merge or replaced by a split land
+          here too; their links and key results stay with the objective that took them over.
+        </p>
+      </header>
+
+      {loading && objectives.length === 0 && <p className="trash__empty">Loading trash…</p>}
+      {!loading && !error && objectives.length === 0 && <p className="trash__empty">The trash is empty.</p>}
+      {message && <p className="trash__message">{message}</p>}
+
+      {objectives.length > 0 && (
+        <ul className="trash__list">
+          {objectives.map((objective) => (
+            <li key={objective.id} className="trash__item">
+              <div>
+                <p>{objective.text}</p>
+                <small>
+                  Deleted {new Date(objective.deletedAt).toLocaleString()} · {objective.status.toLowerCase()}
+                  {` · ${objective.relationshipCount} link${objective.relationshipCount === 1 ? '' : 's'}`}
+                  {objective.mergedInto && ` · merged into “${objective.mergedInto.text}”`}
+                </small>
+              </div>
+              <div className="trash__actions">
+                <button type="button" disabled={busyId !== null} onClick={() => void act(objective, 'restore')}>
+                  Restore
+                </button>
+                {confirmingId === objective.id ? (
+                  <button
+                    type="button"
+                    className="trash__purge trash__purge--confirm"
+                    disabled={busyId !== null}
+                    onClick={() => void act(objective, 'purge')}
+                  >
+                    Confirm delete
+                  </button>
+                ) : (
+                  <button type="button" className="trash__purge" onClick={() => setConfirmingId(objective.id)}>
+                    Delete forever
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="alert" role="alert">
+          <span className="alert__badge">Error</span>
+          <p>{error}</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -13,13 +13,54 @@ export interface ObjectiveRelatedItem {
   target: ObjectiveRelationTarget;
 }
 
+export type ObjectiveReviewState = 'PENDING' | 'ACCEPTED' | 'DISCARDED';
+
+export type ObjectiveLevel = 'VISION' | 'GOAL' | 'KEY_RESULT' | 'INITIATIVE' | 'TASK';
+
 export interface ObjectiveWithRelated {
   id: string;
   text: string;
   createdAt: string;
   updatedAt?: string;
+  reviewState?: ObjectiveReviewState;
+  level?: ObjectiveLevel | null;
+  parentId?: string | null;
   related: ObjectiveRelatedItem[];
   tags?: string[];
+  keyResults?: KeyResult[];
+  progress?: number | null;
+}
+
+export interface KeyResult {
+  id: string;
+  objectiveId: string;
+  metric: string;
+  unit: string | null;
+  baseline: number;
+  target: number;
+  currentValue: number;
+  dueDate: string | null;
+  progress: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KeyResultCheckIn {
+  id: string;
+  keyResultId: string;
+  value: number;
+  note: string | null;
+  recordedAt: string;
+  createdAt: string;
+}
+
+export interface SuggestedRelationship {
+  fromId: string;
+  toId: string;
+  toText: string;
+  type: string;
+  score: number;
+  matchedTerms: string[];
 }
 
 export type TicketStatus = 'pending' | 'accepted' | 'discarded';
@@ -28,4 +69,199 @@ export interface Ticket extends ObjectiveWithRelated {
   status: TicketStatus;
   originalText: string;
   tags: string[];
+  suggestions: SuggestedRelationship[];
+}
+
+export interface BrainCitation extends ObjectiveWithRelated {
+  ref: string;
+  status?: string;
+  priority?: string | null;
+}
+
+export interface BrainRelationshipCitation {
+  ref: string;
+  id: string;
+  fromId: string;
+  toId: string;
+  type: string;
+  rationale: string | null;
+  fromText: string | null;
+  toText: string | null;
+}
+
+export interface BrainContextObjective {
+  id: string;
+  text: string;
+  reason: 'match' | 'neighbor' | 'recent';
+  score: number | null;
+  hops: number;
+}
+
+export interface KnowledgeEntrySummary {
+  id: string;
+  title: string | null;
+  sourceFormat: string | null;
+  extractionModel: string | null;
+  createdAt: string;
+  preview: string;
+  characterCount: number;
+  objectiveCount: number;
+}
+
+export interface KnowledgeEntryObjective {
+  id: string;
+  text: string;
+  status: string;
+  priority: string;
+  reviewState: ObjectiveReviewState;
+  owner: string | null;
+  tags: string[];
+  sourceLabel: string | null;
+  sourceExcerpt: string | null;
+  sourceStart: number | null;
+  sourceEnd: number | null;
+  createdAt: string;
+}
+
+export interface KnowledgeEntryDetail extends Omit<KnowledgeEntrySummary, 'preview'> {
+  rawContent: string;
+  objectives: KnowledgeEntryObjective[];
+}
+
+export interface ObjectiveDraft {
+  key: string;
+  text: string;
+  context?: string | null;
+  category?: string | null;
+  timeframe?: string | null;
+  status?: string | null;
+  priority?: string | null;
+  confidence?: number | null;
+  owner?: string | null;
+  metrics?: string[];
+  tags?: string[];
+  sourceLabel?: string | null;
+  sourceExcerpt?: string | null;
+  level?: ObjectiveLevel | null;
+  // existing:<id> of the objective this one rolls up to
+  parentKey?: string | null;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  text: string;
+  score: number;
+  mode: 'embedding' | 'keyword';
+}
+
+export interface PossibleDuplicate {
+  draft: ObjectiveDraft;
+  matches: DuplicateMatch[];
+}
+
+export type ExtractionJobStatus = 'QUEUED' | 'EXTRACTING' | 'DEDUPLICATING' | 'PERSISTING' | 'DONE' | 'FAILED';
+
+export interface ReextractionFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ReextractionProposal {
+  entryId: string;
+  model: string;
+  previousModel: string | null;
+  added: Array<{ key: string; draft: ObjectiveDraft }>;
+  updated: Array<{ objectiveId: string; key: string; text: string; changes: Record<string, ReextractionFieldChange> }>;
+  unchanged: Array<{ objectiveId: string; key: string; text: string }>;
+  removed: Array<{ objectiveId: string; text: string; reviewState: ObjectiveReviewState }>;
+  duplicates: Array<{ key: string; text: string; duplicateOfId: string }>;
+  relationships: Array<{ from: string; to: string; type: string }>;
+}
+
+export interface ObjectiveTreeNode {
+  id: string;
+  text: string;
+  level: ObjectiveLevel | null;
+  parentId: string | null;
+  status: string;
+  priority: string;
+  reviewState: ObjectiveReviewState;
+  owner: string | null;
+  timeframe: string | null;
+  progress: number | null;
+  children: ObjectiveTreeNode[];
+  rollup: {
+    descendants: number;
+    complete: number;
+    blocked: number;
+    progress: number | null;
+  };
+}
+
+export interface AuditEvent {
+  id: string;
+  entityType: 'OBJECTIVE' | 'RELATIONSHIP' | 'KEY_RESULT';
+  entityId: string;
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  objectiveIds: string[];
+  actor: string;
+  reason: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface TrashedObjective {
+  id: string;
+  text: string;
+  status: string;
+  level: ObjectiveLevel | null;
+  entryId: string | null;
+  deletedAt: string;
+  relationshipCount: number;
+  mergedInto: { id: string; text: string } | null;
+}
+
+export interface GraphSnapshotSummary {
+  id: string;
+  name: string;
+  note: string | null;
+  objectiveCount: number;
+  relationshipCount: number;
+  createdAt: string;
+}
+
+export interface SnapshotObjective {
+  id: string;
+  text: string;
+  status: string;
+  priority: string;
+  level: ObjectiveLevel | null;
+  parentId: string | null;
+  progress: number | null;
+}
+
+export interface SnapshotRelationshipChange {
+  id: string;
+  fromId: string;
+  toId: string;
+  type: string;
+  fromText: string | null;
+  toText: string | null;
+}
+
+export interface GraphDiff {
+  objectives: {
+    added: SnapshotObjective[];
+    removed: SnapshotObjective[];
+    changed: Array<{
+      id: string;
+      text: string;
+      changes: Record<string, { from: unknown; to: unknown }>;
+    }>;
+  };
+  relationships: {
+    added: SnapshotRelationshipChange[];
+    removed: SnapshotRelationshipChange[];
+  };
 }
@@ -0,0 +1,22 @@
+const ACTOR_STORAGE_KEY = 'visium.actor';
+
+export function getActorName(): string {
+  return localStorage.getItem(ACTOR_STORAGE_KEY) ?? '';
+}
+
+export function setActorName(name: string) {
+  const trimmed = name.trim();
+  if (trimmed) {
+    localStorage.setItem(ACTOR_STORAGE_KEY, trimmed);
+  } else {
+    localStorage.removeItem(ACTOR_STORAGE_KEY);
+  }
+}
+
+// The API records who made each change from the X-Actor header, so writes go through here.
+export function apiFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const actor = getActorName();
+  if (actor) headers.set('X-Actor', actor);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,32 @@
+import type {
+  ObjectiveReviewState,
+  ObjectiveWithRelated,
+  SuggestedRelationship,
+  Ticket,
+  TicketStatus,
+} from '../types/objectives';
+
+export function ticketStatusFromReviewState(reviewState?: ObjectiveReviewState): TicketStatus {
+  switch (reviewState) {
+    case 'ACCEPTED':
+      return 'accepted';
+    case 'DISCARDED':
+      return 'discarded';
+    default:
+      return 'pending';
+  }
+}
+
+export function toTicket(
+  objective: ObjectiveWithRelated,
+  extraTags: string[] = [],
+  suggestions: SuggestedRelationship[] = [],
+): Ticket {
+  return {
+    ...objective,
+    originalText: objective.text,
+    status: ticketStatusFromReviewState(objective.reviewState),
+    tags: Array.from(new Set([...(objective.tags ?? []), ...extraTags])),
+    suggestions: suggestions.filter((suggestion) => suggestion.fromId === objective.id),
+  };
+}